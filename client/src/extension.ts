@@ -1,12 +1,14 @@
 import * as path from 'path';
-import { workspace, ExtensionContext } from 'vscode';
+import { workspace, commands, ExtensionContext } from 'vscode';
 
 import {
 	LanguageClient,
 	LanguageClientOptions,
 	ServerOptions,
-	TransportKind
-} from 'vscode-languageclient';
+	TransportKind,
+	Location,
+	Position
+} from 'vscode-languageclient/node';
 
 let client: LanguageClient;
 
@@ -37,9 +39,16 @@ export function activate(context: ExtensionContext) {
 		documentSelector: [{ scheme: 'file', language: 'unrealscript' }],
 		synchronize: {
 			configurationSection: 'unrealscript',
-			fileEvents: workspace.createFileSystemWatcher('**/.clientrc')
+			fileEvents: [
+				workspace.createFileSystemWatcher('**/.clientrc'),
+				workspace.createFileSystemWatcher('**/*.{uc,uci}')
+			]
 		},
 		outputChannelName: 'UnrealScript',
+		initializationOptions: {
+			// Where the server keeps its index cache.
+			storagePath: context.storageUri && context.storageUri.fsPath
+		},
 	};
 
 	client = new LanguageClient(
@@ -49,6 +58,16 @@ export function activate(context: ExtensionContext) {
 		clientOptions
 	);
 	client.start();
+
+	// Used by the server's code lenses, the arguments have to be converted to their vscode counterparts.
+	context.subscriptions.push(commands.registerCommand('unrealscript.showReferences', (uri: string, position: Position, locations: Location[]) => {
+		const converter = client.protocol2CodeConverter;
+		return commands.executeCommand('editor.action.showReferences',
+			converter.asUri(uri),
+			converter.asPosition(position),
+			locations.map(converter.asLocation)
+		);
+	}));
 }
 
 export function deactivate(): Thenable<void> | undefined {
@@ -46,7 +46,8 @@ macro returns[isActive: boolean, evaluatedTokens?: Token[]]
 			const id = symbolToken && symbolToken.text;
 			if (id) {
 				let text = $MACRO_TEXT.text;
-				this.currentSymbols.set(id.toLowerCase(), { text: text || '...' });
+				const params = $args.ctx ? $args.ctx.MACRO_SYMBOL().map(node => node.text) : undefined;
+				this.currentSymbols.set(id.toLowerCase(), { params, text: text || '...' });
 			}
 		}
 	} # macroDefine
@@ -0,0 +1,24 @@
+class ShadowingTest extends Object;
+
+var int Value;
+
+function int GetValue(int Value)
+{
+	return Value;
+}
+
+function int Foo()
+{
+	local int Count;
+
+	Count = Value;
+	return Count;
+}
+
+function int Bar()
+{
+	local int Count;
+
+	Count = 1;
+	return Count;
+}
@@ -0,0 +1,5 @@
+class IsolatedChild extends IsolatedBase;
+
+const BaseClass = class'IsolatedBase';
+
+var IsolatedBase Base;
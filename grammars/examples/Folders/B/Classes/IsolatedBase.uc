@@ -0,0 +1,3 @@
+class IsolatedBase extends Object;
+
+var int FromB;
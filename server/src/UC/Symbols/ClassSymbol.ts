@@ -3,6 +3,7 @@ import { SymbolKind, CompletionItemKind, Position } from 'vscode-languageserver-
 import { UCDocument } from '../document';
 import { intersectsWith, intersectsWithRange } from '../helpers';
 import { SymbolWalker } from '../symbolWalker';
+import { indexSubtype } from '../indexer';
 
 import { UCStructSymbol, UCObjectTypeSymbol, ITypeSymbol, ISymbol, UCTypeKind } from '.';
 
@@ -105,6 +106,10 @@ export class UCClassSymbol extends UCStructSymbol {
 		}
 
 		super.index(document, context);
+
+		if (this.super instanceof UCClassSymbol) {
+			indexSubtype(this);
+		}
 	}
 
 	accept<Result>(visitor: SymbolWalker<Result>): Result {
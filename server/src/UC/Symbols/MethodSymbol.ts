@@ -3,6 +3,7 @@ import { SymbolKind, CompletionItemKind, Position, Location } from 'vscode-langu
 import { UCDocument } from '../document';
 import { SymbolWalker } from '../symbolWalker';
 import { Name } from '../names';
+import { IDocComment, docCommentToMarkdown } from '../documentation';
 
 import {
 	DEFAULT_RANGE,
@@ -75,17 +76,22 @@ export class UCMethodSymbol extends UCStructSymbol {
 		return CompletionItemKind.Function;
 	}
 
-	getDocumentation() {
-		const doc = super.getDocumentation();
+	getDocComment(): IDocComment | undefined {
+		const doc = super.getDocComment();
 		if (doc) {
 			return doc;
 		}
 
 		if (this.overriddenMethod) {
-			return this.overriddenMethod.getDocumentation();
+			return this.overriddenMethod.getDocComment();
 		}
 	}
 
+	getDocumentation(): string | undefined {
+		const doc = this.getDocComment();
+		return doc && docCommentToMarkdown(doc, this.params && this.params.map(param => param.getId().toString()));
+	}
+
 	getContainedSymbolAtPos(position: Position) {
 		if (this.returnType) {
 			const returnSymbol = this.returnType.getSymbolAtPos(position);
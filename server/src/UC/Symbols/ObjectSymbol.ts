@@ -29,7 +29,7 @@ export class UCObjectSymbol extends UCStructSymbol {
 		if (this.classId) {
 			this.classType = new UCObjectTypeSymbol(this.classId, undefined, UCTypeKind.Class);
 
-			const objectClass = ClassesTable.findSymbol(this.classId.name, true) as UCClassSymbol;
+			const objectClass = ClassesTable.findSymbol(this.classId.name, true, document.filePath) as UCClassSymbol;
 			this.classType.setReference(objectClass, document);
 
 			if (objectClass) {
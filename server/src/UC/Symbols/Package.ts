@@ -2,12 +2,27 @@ import { SymbolKind, CompletionItem } from 'vscode-languageserver-types';
 
 import { UCDocument } from '../document';
 import { SymbolWalker } from '../symbolWalker';
-import { getDocumentById, indexDocument } from '../indexer';
+import { getDocumentById, indexDocument, config } from '../indexer';
 import { Name, NAME_NONE } from '../names';
 
 import { ISymbol, ISymbolContainer, UCClassSymbol } from '.';
 import { UCFieldSymbol } from './FieldSymbol';
 
+/**
+ * Returns the class of the document that declares @id, the document is indexed if it hasn't been indexed yet.
+ */
+function findDocumentClass(id: Name, contextUri?: string): UCClassSymbol | undefined {
+	const document = getDocumentById(id.toString().toLowerCase(), contextUri);
+	if (!document) {
+		return undefined;
+	}
+
+	if (!document.hasBeenIndexed) {
+		indexDocument(document);
+	}
+	return document.class;
+}
+
 export class UCPackage implements ISymbol, ISymbolContainer<ISymbol> {
 	public outer?: UCPackage;
 	protected symbols = new WeakMap<Name, ISymbol>();
@@ -67,24 +82,30 @@ export class UCPackage implements ISymbol, ISymbolContainer<ISymbol> {
 		this.symbols.set(key, symbol);
 	}
 
+	removeSymbol(symbol: ISymbol) {
+		const key = symbol.getId();
+		// Another document may have declared a symbol by the same name since.
+		if (this.symbols.get(key) === symbol) {
+			this.symbols.delete(key);
+		}
+	}
+
 	getSymbol(id: Name): ISymbol | undefined {
 		return this.symbols.get(id);
 	}
 
-	findSymbol(id: Name, deepSearch?: boolean): ISymbol | undefined {
+	/**
+	 * Looks up a symbol by @id, a deep search also looks up the class that is declared by a document of the same name,
+	 * as visible to the document of @contextUri, see getUriById().
+	 */
+	findSymbol(id: Name, deepSearch?: boolean, contextUri?: string): ISymbol | undefined {
 		const symbol = this.getSymbol(id);
 		if (symbol) {
 			return symbol;
 		}
 
 		if (deepSearch) {
-			const document = getDocumentById(id.toString().toLowerCase());
-			if (document) {
-				if (!document.hasBeenIndexed) {
-					indexDocument(document);
-				}
-				return document.class;
-			}
+			return findDocumentClass(id, contextUri);
 		}
 	}
 
@@ -115,20 +136,23 @@ export class SymbolsTable<T extends ISymbol> implements ISymbolContainer<T> {
 		return this.symbols.get(id);
 	}
 
-	findSymbol(id: Name, deepSearch?: boolean): ISymbol | undefined {
+	/**
+	 * Looks up a symbol by @id, a deep search also looks up the class that is declared by a document of the same name,
+	 * as visible to the document of @contextUri, see getUriById().
+	 */
+	findSymbol(id: Name, deepSearch?: boolean, contextUri?: string): ISymbol | undefined {
+		// The table holds the class that has been declared last by this name, which may belong to another workspace folder.
+		if (deepSearch && contextUri && config.isolateWorkspaceFolders) {
+			return findDocumentClass(id, contextUri) || this.getSymbol(id);
+		}
+
 		const symbol = this.getSymbol(id);
 		if (symbol) {
 			return symbol;
 		}
 
 		if (deepSearch) {
-			const document = getDocumentById(id.toString().toLowerCase());
-			if (document) {
-				if (!document.hasBeenIndexed) {
-					indexDocument(document);
-				}
-				return document.class;
-			}
+			return findDocumentClass(id, contextUri);
 		}
 	}
 }
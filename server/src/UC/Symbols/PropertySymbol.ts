@@ -20,7 +20,7 @@ export class UCPropertySymbol extends UCFieldSymbol {
 	public type?: ITypeSymbol;
 
 	// Array dimension if specified, string should consist of an integer.
-	private arrayDim?: string;
+	public arrayDim?: string;
 	public arrayDimRange?: Range;
 
 	// Array dimension is statically based on a declared symbol, such as a const or enum member.
@@ -2,6 +2,7 @@ import { SymbolKind, CompletionItemKind } from 'vscode-languageserver-types';
 
 import { UCDocument } from '../document';
 import { SymbolWalker } from '../symbolWalker';
+import { indexSubtype } from '../indexer';
 
 import {
 	UCTypeKind, ISymbol,
@@ -54,6 +55,7 @@ export class UCScriptStructSymbol extends UCStructSymbol {
 
 	index(document: UCDocument, context: UCStructSymbol) {
 		super.index(document, this);
+		indexSubtype(this);
 	}
 
 	accept<Result>(visitor: SymbolWalker<Result>): Result {
@@ -3,6 +3,7 @@ import { SymbolKind, Position, Location } from 'vscode-languageserver-types';
 import { UCDocument } from '../document';
 import { SymbolWalker } from '../symbolWalker';
 import { Name } from '../names';
+import { indexSubtype } from '../indexer';
 
 import { UCSymbolReference, UCStructSymbol } from ".";
 
@@ -64,6 +65,7 @@ export class UCStateSymbol extends UCStructSymbol {
 		}
 
 		super.index(document, context);
+		indexSubtype(this);
 		if (this.ignoreRefs) for (const ref of this.ignoreRefs) {
 			const symbol = this.findSuperSymbol(ref.getId());
 			symbol && ref.setReference(symbol, document);
@@ -7,6 +7,7 @@ import { UCDocument } from "../document";
 import { SymbolWalker } from '../symbolWalker';
 import { intersectsWithRange } from '../helpers';
 import { Name } from '../names';
+import { IDocComment, parseDocComment, docCommentToMarkdown } from '../documentation';
 import { DocumentASTWalker } from '../documentASTWalker';
 
 import { ISymbol, Identifier, UCStructSymbol } from ".";
@@ -86,14 +87,22 @@ export abstract class UCSymbol implements ISymbol {
 		return this.outer instanceof UCSymbol && this.outer.getUri() || '';
 	}
 
+	getDocComment(): IDocComment | undefined {
+		return this.description && parseDocComment(this.description.map(t => t.text!).join('\n'));
+	}
+
+	/**
+	 * Returns the documentation as Markdown.
+	 */
 	getDocumentation(): string | undefined {
-		return this.description && this.description.map(t => t.text!).join('\n');
+		const doc = this.getDocComment();
+		return doc && docCommentToMarkdown(doc);
 	}
 
 	toSymbolInfo(): SymbolInformation {
 		return SymbolInformation.create(
 			this.getId().toString(), this.getKind(),
-			this.getRange(), undefined,
+			this.getRange(), this.getUri(),
 			this.outer && this.outer.getId().toString()
 		);
 	}
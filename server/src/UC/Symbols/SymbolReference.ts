@@ -64,4 +64,11 @@ export class UCSymbolReference extends UCSymbol implements IWithReference {
 	getReference(): ISymbol | undefined {
 		return this.reference;
 	}
+
+	/**
+	 * Removes the resolved reference, so that it will be resolved again by the next index.
+	 */
+	clearReference() {
+		this.reference = undefined;
+	}
 }
@@ -324,7 +324,7 @@ export class UCObjectTypeSymbol extends UCSymbolReference implements ITypeSymbol
 			}
 
 			case UCTypeKind.Class: case UCTypeKind.Interface: {
-				symbol = ClassesTable.findSymbol(id, true);
+				symbol = ClassesTable.findSymbol(id, true, document.filePath);
 				break;
 			}
 
@@ -339,7 +339,7 @@ export class UCObjectTypeSymbol extends UCSymbolReference implements ITypeSymbol
 			}
 
 			case UCTypeKind.Type: {
-				symbol = ClassesTable.findSymbol(id, true) || ObjectsTable.findSymbol(id);
+				symbol = ClassesTable.findSymbol(id, true, document.filePath) || ObjectsTable.findSymbol(id);
 				break;
 			}
 
@@ -349,7 +349,7 @@ export class UCObjectTypeSymbol extends UCSymbolReference implements ITypeSymbol
 			case UCTypeKind.Object: {
 				symbol = PackagesTable.findSymbol(id)
 					// TODO: Merge classes and objects, with tricky hashing so that we can filter by class type.
-					|| ClassesTable.findSymbol(id, true)
+					|| ClassesTable.findSymbol(id, true, document.filePath)
 					|| ObjectsTable.findSymbol(id)
 					// FIXME: Hacky case for literals like Property'TempColor', only enums and structs are added to the objects table.
 					|| context.findSuperSymbol(id);
@@ -360,7 +360,7 @@ export class UCObjectTypeSymbol extends UCSymbolReference implements ITypeSymbol
 				// Dirty hack, UCPackage is not a type of UCStructSymbol,
 				// -- handles cases like class'Engine.Interactions', where package 'Engine' is our context.
 				if (context instanceof UCPackage) {
-					symbol = context.findSymbol(id, true);
+					symbol = context.findSymbol(id, true, document.filePath);
 				} else {
 					symbol = context.findSuperSymbol(id);
 				}
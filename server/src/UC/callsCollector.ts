@@ -0,0 +1,112 @@
+import { Position, Range } from 'vscode-languageserver';
+
+import { DefaultExpressionWalker } from './expressionWalker';
+import {
+	IExpression, UCCallExpression, UCPropertyAccessExpression,
+	UCSuperExpression, UCPredefinedPropertyAccessExpression,
+	UCVectLiteral, UCRotLiteral, UCRngLiteral
+} from './expressions';
+import { UCMethodSymbol, UCDelegateSymbol, UCPropertySymbol, UCDelegateTypeSymbol } from './Symbols';
+import { NAME_STATIC } from './names';
+import { intersectsWith } from './helpers';
+
+export enum CallKind {
+	Default,
+	// "super.Method()" or "super(Class).Method()"
+	Super,
+	// "static.Method()"
+	Static,
+	// A call to a delegate, or to a delegate property.
+	Delegate
+}
+
+export interface ICallSite {
+	method: UCMethodSymbol;
+	// The range of the callee's identifier.
+	range: Range;
+	kind: CallKind;
+}
+
+/**
+ * Resolves the function that is called by @callee, and how it is called.
+ */
+export function resolveCallee(callee: IExpression): { method: UCMethodSymbol, kind: CallKind } | undefined {
+	const symbol = callee.getMemberSymbol();
+
+	let method: UCMethodSymbol | undefined;
+	let kind = CallKind.Default;
+	if (symbol instanceof UCMethodSymbol) {
+		method = symbol;
+		if (symbol instanceof UCDelegateSymbol) {
+			kind = CallKind.Delegate;
+		}
+	} else if (symbol instanceof UCPropertySymbol && symbol.type instanceof UCDelegateTypeSymbol) {
+		const delegateSymbol = symbol.type.baseType && symbol.type.baseType.getReference();
+		if (delegateSymbol instanceof UCMethodSymbol) {
+			method = delegateSymbol;
+			kind = CallKind.Delegate;
+		}
+	}
+
+	// e.g. a cast, or an unresolved function.
+	if (!method) {
+		return undefined;
+	}
+
+	if (callee instanceof UCPropertyAccessExpression) {
+		if (callee.left instanceof UCSuperExpression) {
+			kind = CallKind.Super;
+		} else if (callee.left instanceof UCPredefinedPropertyAccessExpression && callee.left.getId() === NAME_STATIC) {
+			kind = CallKind.Static;
+		}
+	}
+	return { method, kind };
+}
+
+/**
+ * Collects the calls that are made within a block, calls that couldn't be resolved are skipped.
+ */
+export class CallsCollector extends DefaultExpressionWalker {
+	public readonly calls: ICallSite[] = [];
+
+	visitExpression(expr: IExpression) {
+		if (expr instanceof UCCallExpression && expr.expression) {
+			this.pushCall(expr.expression);
+		}
+		return super.visitExpression(expr);
+	}
+
+	private pushCall(callee: IExpression) {
+		const callInfo = resolveCallee(callee);
+		if (!callInfo) {
+			return;
+		}
+
+		const range = callee instanceof UCPropertyAccessExpression && callee.member
+			? callee.member.getRange()
+			: callee.getRange();
+		this.calls.push({ method: callInfo.method, range, kind: callInfo.kind });
+	}
+}
+
+/**
+ * Finds the innermost call, or Vect, Rot, or Rng literal, whose range contains the position.
+ */
+export class EnclosingCallFinder extends DefaultExpressionWalker {
+	public call?: UCCallExpression | UCVectLiteral | UCRotLiteral | UCRngLiteral;
+
+	constructor(private position: Position) {
+		super();
+	}
+
+	visitExpression(expr: IExpression) {
+		if (!intersectsWith(expr.getRange(), this.position)) {
+			return expr;
+		}
+
+		if (expr instanceof UCCallExpression || expr instanceof UCVectLiteral || expr instanceof UCRotLiteral || expr instanceof UCRngLiteral) {
+			this.call = expr;
+		}
+		return super.visitExpression(expr);
+	}
+}
@@ -0,0 +1,183 @@
+import * as path from 'path';
+
+import { CompletionItem, CompletionItemKind, Position, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import {
+	ITypeSymbol, UCStructSymbol, UCClassSymbol, UCScriptStructSymbol, UCEnumSymbol, UCEnumMemberSymbol,
+	UCPropertySymbol, UCParamSymbol, UCLocalSymbol, UCObjectSymbol, UCDefaultPropertiesBlock,
+	UCArrayTypeSymbol, UCTypeKind
+} from './Symbols';
+import { UCDocument } from './document';
+import { filePathByClassIdMap$ } from './indexer';
+import { Name, toName } from './names';
+import { parseDefaultsStatement } from './defaultPropertiesStatement';
+
+/**
+ * Returns the struct or class whose properties are being assigned by a defaultproperties or Begin Object block.
+ */
+function getDefaultsOwner(document: UCDocument, context: UCStructSymbol): UCStructSymbol | undefined {
+	if (!(context instanceof UCObjectSymbol)) {
+		// The class or struct that contains the defaultproperties block.
+		return context.super;
+	}
+
+	if (context.super instanceof UCClassSymbol) {
+		return context.super;
+	}
+
+	// "Begin Object Name=X" without a class, overrides an object that has been declared by a parent class.
+	const archetype = context.objectName && findSubObject(document.class && document.class.super, context.objectName);
+	return archetype && archetype.super instanceof UCClassSymbol ? archetype.super : undefined;
+}
+
+function getDefaultsBlock(classSymbol: UCClassSymbol): UCDefaultPropertiesBlock | undefined {
+	for (let child = classSymbol.children; child; child = child.next) {
+		if (child instanceof UCDefaultPropertiesBlock) {
+			return child;
+		}
+	}
+	return undefined;
+}
+
+function findSubObject(classSymbol: UCStructSymbol | undefined, objectName: Name): UCObjectSymbol | undefined {
+	for (let struct = classSymbol; struct; struct = struct.super) {
+		const block = struct instanceof UCClassSymbol && getDefaultsBlock(struct);
+		if (block) for (let child = block.children; child; child = child.next) {
+			if (child instanceof UCObjectSymbol && child.objectName === objectName) {
+				return child;
+			}
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Returns the names of all the objects that have been declared by "Begin Object" in the defaults of the class and its parents.
+ */
+function getSubObjectNames(classSymbol: UCClassSymbol | undefined): string[] {
+	const names = new Map<Name, string>();
+	for (let struct: UCStructSymbol | undefined = classSymbol; struct; struct = struct.super) {
+		const block = struct instanceof UCClassSymbol && getDefaultsBlock(struct);
+		if (block) for (let child = block.children; child; child = child.next) {
+			if (child instanceof UCObjectSymbol && child.objectName && !names.has(child.objectName)) {
+				names.set(child.objectName, child.objectName.toString());
+			}
+		}
+	}
+	return Array.from(names.values());
+}
+
+function findProperty(struct: UCStructSymbol, name: string): UCPropertySymbol | undefined {
+	const symbol = struct.findSuperSymbol(toName(name));
+	return symbol instanceof UCPropertySymbol ? symbol : undefined;
+}
+
+// The type of an element, for the assignments to the elements of an array e.g. "Prop(0)=" or "Prop.Add(".
+function getElementType(type?: ITypeSymbol): ITypeSymbol | undefined {
+	return type instanceof UCArrayTypeSymbol ? type.baseType : type;
+}
+
+function getPropertyItems(document: UCDocument, struct: UCStructSymbol): CompletionItem[] {
+	const items = new Map<Name, CompletionItem>();
+	for (let scope: UCStructSymbol | undefined = struct; scope; scope = scope.super) {
+		for (let child = scope.children; child; child = child.next) {
+			if (!(child instanceof UCPropertySymbol) || child instanceof UCParamSymbol || child instanceof UCLocalSymbol
+				|| items.has(child.getId())) {
+				continue;
+			}
+
+			const item = child.toCompletionItem(document);
+			item.insertText = `${child.getId()}=`;
+			items.set(child.getId(), item);
+		}
+	}
+	return Array.from(items.values());
+}
+
+function getClassItems(): CompletionItem[] {
+	return Array
+		.from(filePathByClassIdMap$.getValue().values())
+		.filter(filePath => path.extname(filePath).toLowerCase() === '.uc')
+		.map(filePath => {
+			const item = CompletionItem.create(path.basename(filePath, path.extname(filePath)));
+			item.kind = CompletionItemKind.Class;
+			return item;
+		});
+}
+
+function getValueItems(document: UCDocument, type: ITypeSymbol): CompletionItem[] {
+	const items: CompletionItem[] = [];
+	const typeKind = type.getTypeKind();
+	const reference = type.getReference();
+	if (typeKind === UCTypeKind.Bool) {
+		for (const value of ['True', 'False']) {
+			items.push({ label: value, kind: CompletionItemKind.Keyword });
+		}
+	} else if (reference instanceof UCEnumSymbol) {
+		for (let child = reference.children; child; child = child.next) {
+			if (child instanceof UCEnumMemberSymbol) {
+				items.push({ label: child.getId().toString(), kind: CompletionItemKind.EnumMember });
+			}
+		}
+	} else if (typeKind === UCTypeKind.Class) {
+		items.push({ label: 'none', kind: CompletionItemKind.Keyword });
+		for (const item of getClassItems()) {
+			item.insertText = `class'${item.label}'`;
+			item.filterText = item.insertText;
+			items.push(item);
+		}
+	} else if (typeKind === UCTypeKind.Object) {
+		items.push({ label: 'none', kind: CompletionItemKind.Keyword });
+		for (const name of getSubObjectNames(document.class)) {
+			items.push({ label: name, kind: CompletionItemKind.Reference });
+		}
+	}
+	return items;
+}
+
+/**
+ * Completes the properties, values, and struct members within a defaultproperties or Begin Object block.
+ * The block must have been parsed, but the statement that is being written may be incomplete.
+ */
+export function getDefaultPropertiesCompletionItems(
+	document: UCDocument, context: UCStructSymbol,
+	textDocument: TextDocument, position: Position
+): CompletionItem[] | undefined {
+	const lineText = textDocument.getText(Range.create(position.line, 0, position.line, position.character));
+
+	// e.g. "Components.Add(Sprite)"
+	if (/\w+\s*\.\s*(Add|AddItem)\s*\(\s*\w*$/i.test(lineText)) {
+		return getSubObjectNames(document.class).map(name => ({ label: name, kind: CompletionItemKind.Reference }));
+	}
+
+	// A struct literal may span multiple lines, so we parse from the start of the block.
+	const statementContext = parseDefaultsStatement(textDocument.getText(Range.create(context.getRange().start, position)));
+	if (!statementContext) {
+		return undefined;
+	}
+
+	if (statementContext.isInClassLiteral) {
+		return getClassItems();
+	}
+
+	let struct = getDefaultsOwner(document, context);
+	for (const name of statementContext.structPath) {
+		const property = struct && findProperty(struct, name);
+		const type = property && getElementType(property.type);
+		const reference = type && type.getReference();
+		struct = reference instanceof UCScriptStructSymbol ? reference : undefined;
+	}
+
+	if (!struct) {
+		return undefined;
+	}
+
+	if (typeof statementContext.assignedProperty === 'undefined') {
+		return getPropertyItems(document, struct);
+	}
+
+	const property = findProperty(struct, statementContext.assignedProperty);
+	const type = property && getElementType(property.type);
+	return type ? getValueItems(document, type) : undefined;
+}
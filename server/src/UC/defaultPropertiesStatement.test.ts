@@ -0,0 +1,49 @@
+import { expect } from 'chai';
+
+import { parseDefaultsStatement } from './defaultPropertiesStatement';
+
+describe('Default properties statement', () => {
+	it('parses the property that is being assigned to', () => {
+		const context = parseDefaultsStatement('defaultproperties\n{\n\tbHidden=');
+		expect(context).to.deep.equal({ structPath: [], assignedProperty: 'bHidden', isInClassLiteral: false });
+	});
+
+	it('ends a statement at the end of a line', () => {
+		const context = parseDefaultsStatement('\tbHidden=true\n\t');
+		expect(context!.assignedProperty).to.be.undefined;
+	});
+
+	it('parses the struct literals that span multiple lines', () => {
+		const context = parseDefaultsStatement('\tLocation=(X=1,\n\t\tY=2,\n\t\tOffset=(Z=');
+		expect(context!.structPath).to.deep.equal(['Location', 'Offset']);
+		expect(context!.assignedProperty).to.equal('Z');
+	});
+
+	it('skips the index of an element access', () => {
+		const context = parseDefaultsStatement('\tItems(Count)=(Name=');
+		expect(context!.structPath).to.deep.equal(['Items']);
+		expect(context!.assignedProperty).to.equal('Name');
+	});
+
+	it('skips the parenthesis of strings and names', () => {
+		const context = parseDefaultsStatement('\tInfo=(Text="(a, b)",Tag=\'x,(\',Mesh=');
+		expect(context!.structPath).to.deep.equal(['Info']);
+		expect(context!.assignedProperty).to.equal('Mesh');
+	});
+
+	it('skips comments', () => {
+		const context = parseDefaultsStatement('\tInfo=(X=1, // Y=(\n\t\t/* Z=( */ W=');
+		expect(context!.structPath).to.deep.equal(['Info']);
+		expect(context!.assignedProperty).to.equal('W');
+	});
+
+	it('does not complete within a comment', () => {
+		expect(parseDefaultsStatement('\t// bHidden=')).to.be.undefined;
+		expect(parseDefaultsStatement('\t/* bHidden=')).to.be.undefined;
+	});
+
+	it('parses a class literal', () => {
+		const context = parseDefaultsStatement('\tControllerClass=class\'');
+		expect(context!.isInClassLiteral).to.be.true;
+	});
+});
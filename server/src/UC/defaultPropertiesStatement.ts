@@ -0,0 +1,120 @@
+/**
+ * Where the cursor is within a statement of a defaultproperties block, as determined by @parseDefaultsStatement.
+ */
+export interface IDefaultsStatementContext {
+	// The properties of the struct literals that enclose the cursor e.g. ["Location"] for "Location=(X=1,Y=".
+	structPath: string[];
+	// The property that is being assigned to, if the cursor is at the value of an assignment.
+	assignedProperty?: string;
+	// Within a class literal e.g. "class'".
+	isInClassLiteral: boolean;
+}
+
+/**
+ * Parses the text of a defaultproperties block that precedes the cursor e.g. "Location=(X=1,Y=".
+ * A statement ends at the end of a line or at a ';', unless it is within a struct literal, which may span multiple lines.
+ * Returns undefined if the cursor is within a comment.
+ */
+export function parseDefaultsStatement(text: string): IDefaultsStatementContext | undefined {
+	const structPath: string[] = [];
+	let lastIdentifier: string | undefined;
+	let assignedProperty: string | undefined;
+	// The parenthesis or brackets of an element access e.g. "Prop(0)=" or "Prop[0]=".
+	let elementLevel = 0;
+	let quote: string | undefined;
+	let quoteStart = 0;
+	for (let i = 0; i < text.length; ++ i) {
+		const char = text[i];
+		if (quote) {
+			if (char === '\\') {
+				++ i;
+			} else if (char === quote || char === '\n') {
+				quote = undefined;
+			}
+			continue;
+		}
+
+		switch (char) {
+			case '"': case '\'':
+				quote = char;
+				quoteStart = i;
+				break;
+
+			case '/': {
+				let commentEnd = -1;
+				if (text[i + 1] === '/') {
+					commentEnd = text.indexOf('\n', i + 2);
+				} else if (text[i + 1] === '*') {
+					commentEnd = text.indexOf('*/', i + 2);
+					if (commentEnd !== -1) {
+						++ commentEnd;
+					}
+				} else {
+					break;
+				}
+
+				if (commentEnd === -1) {
+					return undefined;
+				}
+				// A line comment ends at the line break, which has to end the statement as well.
+				i = text[commentEnd] === '\n' ? commentEnd - 1 : commentEnd;
+				break;
+			}
+
+			case '\n': case ';':
+				if (structPath.length === 0 && elementLevel === 0) {
+					lastIdentifier = undefined;
+					assignedProperty = undefined;
+				}
+				break;
+
+			case '=':
+				assignedProperty = lastIdentifier;
+				break;
+
+			case '[':
+				++ elementLevel;
+				break;
+
+			case ']':
+				-- elementLevel;
+				break;
+
+			case '(':
+				if (typeof assignedProperty !== 'undefined') {
+					structPath.push(assignedProperty);
+					assignedProperty = undefined;
+				} else {
+					++ elementLevel;
+				}
+				break;
+
+			case ')':
+				if (elementLevel > 0) {
+					-- elementLevel;
+				} else {
+					structPath.pop();
+				}
+				break;
+
+			case ',':
+				assignedProperty = undefined;
+				break;
+
+			default: {
+				const match = text.substr(i).match(/^\w+/);
+				if (match) {
+					// Skip the index of an element access.
+					if (elementLevel === 0) {
+						lastIdentifier = match[0];
+					}
+					i += match[0].length - 1;
+				}
+				break;
+			}
+		}
+	}
+
+	const isInClassLiteral = quote === '\'' && /class\s*$/i.test(text.substr(0, quoteStart));
+	return { structPath, assignedProperty, isInClassLiteral };
+}
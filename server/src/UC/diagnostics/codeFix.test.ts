@@ -0,0 +1,36 @@
+import { expect } from 'chai';
+import { Diagnostic, Position, Range } from 'vscode-languageserver-types';
+
+import { createCodeActions, insertTextFix } from './codeFix';
+
+describe('Code fixes', () => {
+	const uri = 'file:///Foo.uc';
+	const range = Range.create(0, 6, 0, 9);
+
+	it('creates a quick fix for an attached fix', () => {
+		const diagnostic = Diagnostic.create(range, 'message');
+		diagnostic.data = insertTextFix('Initialize', Position.create(0, 9), ' = 0');
+
+		const actions = createCodeActions(uri, [diagnostic]);
+		expect(actions).to.have.lengthOf(1);
+		expect(actions[0].isPreferred).to.be.true;
+		expect(actions[0].diagnostics).to.deep.equal([diagnostic]);
+	});
+
+	it('creates a quick fix for each alternative fix', () => {
+		const diagnostic = Diagnostic.create(range, 'message');
+		diagnostic.data = [
+			insertTextFix('Initialize as int', Position.create(0, 9), ' = 0', false),
+			insertTextFix('Initialize as string', Position.create(0, 9), ' = ""', false)
+		];
+
+		const actions = createCodeActions(uri, [diagnostic]);
+		expect(actions.map(action => action.title)).to.deep.equal(['Initialize as int', 'Initialize as string']);
+		expect(actions[1].edit!.changes![uri][0].newText).to.equal(' = ""');
+		expect(actions.every(action => !action.isPreferred)).to.be.true;
+	});
+
+	it('ignores a diagnostic without a fix', () => {
+		expect(createCodeActions(uri, [Diagnostic.create(range, 'message')])).to.be.empty;
+	});
+});
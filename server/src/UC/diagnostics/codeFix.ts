@@ -0,0 +1,52 @@
+import { CodeAction, CodeActionKind, Diagnostic, Position, Range, TextEdit } from 'vscode-languageserver-types';
+
+/**
+ * A fix that can be attached to a diagnostic template, the edits are applied to the document of said diagnostic.
+ * Transferred as part of the diagnostic's data, and thus has to be serializable.
+ */
+export interface IDiagnosticFix {
+	title: string;
+	edits: TextEdit[];
+	isPreferred?: boolean;
+}
+
+export function insertTextFix(title: string, position: Position, text: string, isPreferred = true): IDiagnosticFix {
+	return {
+		title,
+		edits: [TextEdit.insert(position, text)],
+		isPreferred
+	};
+}
+
+export function replaceTextFix(title: string, range: Range, text: string): IDiagnosticFix {
+	return {
+		title,
+		edits: [TextEdit.replace(range, text)],
+		isPreferred: true
+	};
+}
+
+function isDiagnosticFix(data: any): data is IDiagnosticFix {
+	return data && typeof data.title === 'string' && Array.isArray(data.edits);
+}
+
+/**
+ * Creates a quick fix for each fix that is attached to a diagnostic.
+ */
+export function createCodeActions(uri: string, diagnostics: Diagnostic[]): CodeAction[] {
+	const actions: CodeAction[] = [];
+	for (const diagnostic of diagnostics) {
+		const fixes = Array.isArray(diagnostic.data) ? diagnostic.data : [diagnostic.data];
+		for (const fix of fixes) {
+			if (!isDiagnosticFix(fix)) {
+				continue;
+			}
+
+			const action = CodeAction.create(fix.title, { changes: { [uri]: fix.edits } }, CodeActionKind.QuickFix);
+			action.diagnostics = [diagnostic];
+			action.isPreferred = fix.isPreferred;
+			actions.push(action);
+		}
+	}
+	return actions;
+}
@@ -2,6 +2,8 @@ import { Range, DiagnosticSeverity, Diagnostic } from 'vscode-languageserver-typ
 import { UCSymbol, UCSymbolReference } from "../Symbols";
 import { IExpression } from '../expressions';
 
+import { IDiagnosticFix } from './codeFix';
+
 export interface IDiagnosticNode {
 	getRange(): Range;
 }
@@ -82,6 +84,9 @@ interface IDiagnosticTemplate {
 	args?: string[];
 
 	custom?: { [key: string]: any, unnecessary?: {} };
+
+	// A fix, or alternative fixes, to be offered as quick fix code actions.
+	fix?: IDiagnosticFix | IDiagnosticFix[];
 }
 
 export class DiagnosticCollection {
@@ -100,7 +105,8 @@ export class DiagnosticCollection {
 					: template.message.text,
 				severity: template.message.severity as DiagnosticSeverity,
 				code: template.message.code,
-				source: 'unrealscript'
+				source: 'unrealscript',
+				data: template.fix
 			};
 			return Object.assign(diagnostic, template.custom);
 		});
@@ -20,9 +20,19 @@ import { toHash, NAME_STRUCT, NAME_STATE, NAME_DELEGATE } from '../names';
 import { config, UCGeneration } from '../indexer';
 
 import { DiagnosticCollection } from './diagnostic';
+import { insertTextFix, replaceTextFix } from './codeFix';
 
 import * as diagnosticMessages from './diagnosticMessages.json';
 
+// The literals that a const declaration can be initialized with, by type.
+const ConstInitializers: [string, string][] = [
+	['int', '0'],
+	['float', '0.0'],
+	['bool', 'false'],
+	['string', '""'],
+	['name', '\'\'']
+];
+
 export class DocumentAnalyzer extends DefaultSymbolWalker {
 	private scopes: UCStructSymbol[] = [];
 	private context?: UCStructSymbol;
@@ -93,7 +103,8 @@ export class DocumentAnalyzer extends DefaultSymbolWalker {
 			this.diagnostics.add({
 				range: symbol.id.range,
 				message: diagnosticMessages.CLASS_NAME_0_MUST_MATCH_DOCUMENT_NAME_1,
-				args: [className.toString(), this.document.fileName]
+				args: [className.toString(), this.document.fileName],
+				fix: replaceTextFix(`Rename class to '${this.document.fileName}'`, symbol.id.range, this.document.fileName)
 			});
 		}
 		return symbol;
@@ -110,7 +121,11 @@ export class DocumentAnalyzer extends DefaultSymbolWalker {
 				message: {
 					text: `Const declarations must be initialized!`,
 					severity: DiagnosticSeverity.Error
-				}
+				},
+				// A const has no declared type, thus we offer to initialize it with a literal of each type instead.
+				fix: ConstInitializers.map(([typeName, value]) => insertTextFix(
+					`Initialize '${symbol.getId()}' as ${typeName}`, symbol.id.range.end, ` = ${value}`, false
+				))
 			});
 		}
 		this.pop();
@@ -206,7 +221,8 @@ export class DocumentAnalyzer extends DefaultSymbolWalker {
 							message: {
 								text: `Parameter '${param.getId()}' must be marked 'optional' after an optional parameter.`,
 								severity: DiagnosticSeverity.Error
-							}
+							},
+							fix: insertTextFix(`Mark '${param.getId()}' as 'optional'`, param.getRange().start, 'optional ')
 						});
 					}
 					break;
@@ -222,7 +238,8 @@ export class DocumentAnalyzer extends DefaultSymbolWalker {
 					message: {
 						text: `Operator must be declared as 'final'.`,
 						severity: DiagnosticSeverity.Error
-					}
+					},
+					fix: insertTextFix(`Mark '${symbol.getId()}' as 'final'`, symbol.getRange().start, 'final ')
 				});
 			}
 
@@ -323,7 +340,8 @@ export class DocumentAnalyzer extends DefaultSymbolWalker {
 						message: {
 							text: `To assign a default value to a parameter, it must be marked as 'optional'!`,
 							severity: DiagnosticSeverity.Error
-						}
+						},
+						fix: insertTextFix(`Mark '${symbol.getId()}' as 'optional'`, symbol.getRange().start, 'optional ')
 					});
 				}
 			} else {
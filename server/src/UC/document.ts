@@ -7,20 +7,21 @@ import { Diagnostic } from 'vscode-languageserver';
 import { performance } from 'perf_hooks';
 import { UCLexer } from '../antlr/UCLexer';
 import { UCParser, ProgramContext } from '../antlr/UCParser';
-import { UCPreprocessorParser } from '../antlr/UCPreprocessorParser';
+import { UCPreprocessorParser, MacroProgramContext } from '../antlr/UCPreprocessorParser';
 import { CommonTokenStream, ANTLRErrorListener } from 'antlr4ts';
 import { PredictionMode } from 'antlr4ts/atn/PredictionMode';
 import { CaseInsensitiveStream } from './Parser/CaseInsensitiveStream';
 
-import { UCClassSymbol, ISymbol, ISymbolReference, UCPackage, UCScriptStructSymbol, UCEnumSymbol, ObjectsTable, UCFieldSymbol, UCSymbol, ClassesTable, UCStructSymbol } from './Symbols';
+import { UCClassSymbol, ISymbol, ISymbolReference, UCPackage, UCScriptStructSymbol, UCEnumSymbol, ObjectsTable, UCFieldSymbol, UCSymbol, ClassesTable, UCStructSymbol, UCStateSymbol, UCDocumentClassSymbol } from './Symbols';
 
-import { IDiagnosticNode, DiagnosticCollection } from './diagnostics/diagnostic';
+import { IDiagnosticNode, DiagnosticCollection, SyntaxErrorNode } from './diagnostics/diagnostic';
 import { DocumentAnalyzer } from './diagnostics/documentAnalyzer';
-import { IndexedReferencesMap, applyMacroSymbols, config } from './indexer';
+import { IndexedReferencesMap, applyMacroSymbols, config, removeSubtype, getSymbolKey, indexDependency, removeDependency } from './indexer';
 
 import { ERROR_STRATEGY } from './Parser/ErrorStrategy';
 import { CommonTokenStreamExt } from './Parser/CommonTokenStreamExt';
 import { DocumentASTWalker } from './documentASTWalker';
+import { DocumentUnlinker } from './documentUnlinker';
 
 export class UCDocument {
 	/** Parsed file name filtered of path and extension. */
@@ -32,7 +33,17 @@ export class UCDocument {
 	public class?: UCClassSymbol;
 	public hasBeenIndexed = false;
 
-	private readonly indexReferencesMade = new Map<number, Set<ISymbolReference>>();
+	// Only the declarations have been indexed i.e. restored from the index cache or built in a worker,
+	// thus the document has yet to be parsed for the references that are made by its code.
+	public hasDeclarationsOnly = false;
+
+	// The preprocessor's tree of the last build, if the document contains any macros.
+	public macroTree?: MacroProgramContext;
+
+	private readonly indexReferencesMade = new Map<string, Set<ISymbolReference>>();
+
+	// The uris of the documents that declare the symbols that this document references.
+	private readonly dependencies = new Set<string>();
 
 	// List of symbols, including macro declarations.
 	private symbols: UCSymbol[] = [];
@@ -61,9 +72,10 @@ export class UCDocument {
 
 		const startPreprocressing = performance.now();
 		const macroParser = createPreprocessor(this, lexer);
+		this.macroTree = undefined;
 		if (macroParser) {
 			try {
-				const macroTree = preprocessDocument(this, macroParser, walker);
+				const macroTree = this.macroTree = preprocessDocument(this, macroParser, walker);
 				if (macroTree) {
 					lexer.reset();
 					tokens.initMacroTree(macroTree, walker as ANTLRErrorListener<number>);
@@ -133,6 +145,10 @@ export class UCDocument {
 		// naive implementation, what if two classes have an identical named struct?
 		function removeObjects(child?: UCFieldSymbol) {
 			for (; child; child = child.next) {
+				if (child instanceof UCScriptStructSymbol || child instanceof UCStateSymbol) {
+					removeSubtype(child);
+				}
+
 				if (child instanceof UCScriptStructSymbol || child instanceof UCEnumSymbol) {
 					if (child.children) {
 						removeObjects(child.children);
@@ -151,13 +167,33 @@ export class UCDocument {
 		}
 
 		if (this.class) {
+			removeSubtype(this.class);
+			this.classPackage.removeSymbol(this.class);
 			ClassesTable.removeSymbol(this.class);
 			this.class = undefined;
 		}
 		this.symbols = []; // clear
 		this.nodes = []; // clear
+		this.macroTree = undefined;
 		this.hasBeenIndexed = false;
+		this.hasDeclarationsOnly = false;
+		this.clearReferences();
+	}
+
+	/**
+	 * Removes the links of this document to other symbols, but unlike @invalidate keeps the symbols that it declares,
+	 * so that the document can be linked again without having to be parsed e.g. when a dependency has been re-indexed.
+	 */
+	public unlink() {
+		if (this.class) {
+			this.class.accept<any>(new DocumentUnlinker());
+		}
+		// Only the syntax errors are reported by the build, the others will be reported again by the next analysis.
+		this.nodes = this.nodes.filter(node => node instanceof SyntaxErrorNode);
+		this.clearReferences();
+	}
 
+	private clearReferences() {
 		// Clear all the indexed references that we have made.
 		for (const [key, value] of this.indexReferencesMade) {
 			const refs = IndexedReferencesMap.get(key);
@@ -166,6 +202,11 @@ export class UCDocument {
 			}
 		}
 		this.indexReferencesMade.clear();
+
+		for (const dependencyUri of this.dependencies) {
+			removeDependency(this, dependencyUri);
+		}
+		this.dependencies.clear();
 	}
 
 	public analyze(): Diagnostic[] {
@@ -196,7 +237,7 @@ export class UCDocument {
 	}
 
 	indexReference(symbol: ISymbol, ref: ISymbolReference) {
-		const key = symbol.getHash();
+		const key = getSymbolKey(symbol);
 		const value = this.indexReferencesMade.get(key);
 
 		const set = value || new Set<ISymbolReference>();
@@ -210,7 +251,25 @@ export class UCDocument {
 		const gRefs = IndexedReferencesMap.get(key) || new Set<ISymbolReference>();
 		gRefs.add(ref);
 		IndexedReferencesMap.set(key, gRefs);
+
+		const dependency = getDeclaringDocument(symbol);
+		if (dependency && dependency !== this && !this.dependencies.has(dependency.filePath)) {
+			this.dependencies.add(dependency.filePath);
+			indexDependency(this, dependency);
+		}
+	}
+}
+
+/**
+ * Returns the document that declares @symbol, if any.
+ */
+function getDeclaringDocument(symbol: ISymbol): UCDocument | undefined {
+	for (let outer: ISymbol | undefined = symbol; outer; outer = outer.outer) {
+		if (outer instanceof UCDocumentClassSymbol) {
+			return outer.document;
+		}
 	}
+	return undefined;
 }
 
 export function createPreprocessor(document: UCDocument, lexer: UCLexer) {
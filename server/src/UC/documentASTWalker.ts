@@ -49,6 +49,7 @@ import {
 } from './statements';
 
 import { setEnumMember } from './indexer';
+import { getIncludePath, resolveIncludePath } from './documentLinksBuilder';
 
 import { UCDocument } from './document';
 import {
@@ -246,6 +247,18 @@ export class DocumentASTWalker extends AbstractParseTreeVisitor<ISymbol | IExpre
 		return undefined;
 	}
 
+	visitMacroInclude(ctx: UCMacro.MacroIncludeContext) {
+		if (!ctx.isActive) {
+			return undefined;
+		}
+
+		const include = getIncludePath(ctx.MACRO_INCLUDE().symbol);
+		if (include && !resolveIncludePath(this.document, include.path)) {
+			this.document.nodes.push(new SyntaxErrorNode(include.range, `Couldn't find included file '${include.path}'.`));
+		}
+		return undefined;
+	}
+
 	visitIdentifier(ctx: UCGrammar.IdentifierContext) {
 		const identifier: Identifier = {
 			name: toName(ctx.text),
@@ -1573,12 +1586,14 @@ export class DocumentASTWalker extends AbstractParseTreeVisitor<ISymbol | IExpre
 	visitStringLiteral(ctx: UCGrammar.StringLiteralContext) {
 		const range = rangeFromBounds(ctx.start, ctx.stop);
 		const expression = new UCStringLiteral(range);
+		expression.value = ctx.STRING().text.slice(1, -1);
 		return expression;
 	}
 
 	visitNameLiteral(ctx: UCGrammar.NameLiteralContext) {
 		const range = rangeFromBounds(ctx.start, ctx.stop);
 		const expression = new UCNameLiteral(range);
+		expression.value = ctx.NAME().text.slice(1, -1);
 		return expression;
 	}
 
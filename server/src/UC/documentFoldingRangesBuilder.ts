@@ -0,0 +1,119 @@
+import { FoldingRange, FoldingRangeKind } from 'vscode-languageserver';
+import { Token } from 'antlr4ts';
+
+import { UCLexer } from '../antlr/UCLexer';
+import { MacroProgramContext, MacroIfContext, MacroElseIfContext, MacroElseContext, MacroEndIfContext } from '../antlr/UCPreprocessorParser';
+import { CaseInsensitiveStream } from './Parser/CaseInsensitiveStream';
+
+import { DefaultSymbolWalker } from './symbolWalker';
+import { ISymbol, UCStructSymbol } from './Symbols';
+import { UCDocument } from './document';
+
+// Keywords that are followed by a block of C++ text.
+const CppTextTokenTypes = new Set<number>([
+	UCLexer.KW_CPPTEXT, UCLexer.KW_STRUCTCPPTEXT, UCLexer.KW_CPPSTRUCT
+]);
+
+export class DocumentFoldingRangesBuilder extends DefaultSymbolWalker {
+	private ranges: FoldingRange[] = [];
+
+	constructor(private document: UCDocument) {
+		super();
+	}
+
+	build(text: string): FoldingRange[] {
+		if (this.document.class) {
+			this.document.class.accept<any>(this);
+		}
+
+		if (this.document.macroTree) {
+			this.pushMacroRanges(this.document.macroTree);
+		}
+
+		const lexer = new UCLexer(new CaseInsensitiveStream(text));
+		lexer.removeErrorListeners();
+		this.pushTokenRanges(lexer.getAllTokens());
+		return this.ranges.sort((a, b) => a.startLine - b.startLine);
+	}
+
+	private pushRange(startLine: number, endLine: number, kind?: string) {
+		// Nothing to fold for a single line.
+		if (endLine <= startLine) {
+			return;
+		}
+		this.ranges.push(FoldingRange.create(startLine, endLine, undefined, undefined, kind));
+	}
+
+	/**
+	 * Folds the `if, `elseif and `else branches up to the line of the branch that follows.
+	 * The branches are taken from the document's last build, re-running the preprocessor would re-apply its side effects.
+	 */
+	private pushMacroRanges(macroTree: MacroProgramContext) {
+		const branchLines: number[] = [];
+		for (const smNode of macroTree.macroStatement()) {
+			const macroCtx = smNode.macro();
+			const line = smNode.start.line - 1;
+			if (macroCtx instanceof MacroIfContext) {
+				branchLines.push(line);
+			} else if (macroCtx instanceof MacroElseIfContext || macroCtx instanceof MacroElseContext) {
+				const startLine = branchLines.pop();
+				if (typeof startLine !== 'undefined') {
+					this.pushRange(startLine, line - 1, FoldingRangeKind.Region);
+				}
+				branchLines.push(line);
+			} else if (macroCtx instanceof MacroEndIfContext) {
+				const startLine = branchLines.pop();
+				if (typeof startLine !== 'undefined') {
+					this.pushRange(startLine, line - 1, FoldingRangeKind.Region);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Folds the multi-line comments and the C++ text blocks, neither of which are part of the symbol tree.
+	 */
+	private pushTokenRanges(tokens: Token[]) {
+		for (let i = 0; i < tokens.length; ++ i) {
+			const token = tokens[i];
+			if (token.type === UCLexer.BLOCK_COMMENT) {
+				const endLine = token.line - 1 + (token.text || '').split('\n').length - 1;
+				this.pushRange(token.line - 1, endLine, FoldingRangeKind.Comment);
+				continue;
+			}
+
+			if (!CppTextTokenTypes.has(token.type)) {
+				continue;
+			}
+
+			let braceLevel = 0;
+			for (let j = i + 1; j < tokens.length; ++ j) {
+				const textToken = tokens[j];
+				if (textToken.channel !== Token.DEFAULT_CHANNEL) {
+					continue;
+				}
+
+				if (textToken.type === UCLexer.OPEN_BRACE) {
+					++ braceLevel;
+				} else if (textToken.type === UCLexer.CLOSE_BRACE && -- braceLevel === 0) {
+					this.pushRange(token.line - 1, textToken.line - 2);
+					i = j;
+					break;
+				} else if (braceLevel === 0) {
+					// Not a block of C++ text.
+					break;
+				}
+			}
+		}
+	}
+
+	visitStructBase(symbol: UCStructSymbol): ISymbol {
+		// The class spans the whole document.
+		if (symbol !== this.document.class) {
+			// Keep the closing brace visible.
+			const range = symbol.getRange();
+			this.pushRange(range.start.line, range.end.line - 1);
+		}
+		return super.visitStructBase(symbol);
+	}
+}
@@ -0,0 +1,132 @@
+import { expect } from 'chai';
+import { Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { DocumentFormatter, getEditsWithinLines } from './documentFormatter';
+import { UCFormatOptions, EBraceStyle, EIndentation } from '../settings';
+
+const formatOptions: UCFormatOptions = {
+	braceStyle: EBraceStyle.Preserve,
+	indentation: EIndentation.Tabs,
+	indentSize: 4,
+	spaceAroundOperators: true,
+	alignDefaultProperties: false
+};
+
+function format(text: string, range?: Range, options: Partial<UCFormatOptions> = {}): string {
+	const edits = new DocumentFormatter(text, Object.assign({}, formatOptions, options), { tabSize: 4, insertSpaces: false }).format();
+	const document = TextDocument.create('file:///Foo.uc', 'unrealscript', 0, text);
+	return TextDocument.applyEdits(document, range ? getEditsWithinLines(edits, range) : edits);
+}
+
+describe('Document formatting', () => {
+	it('indents the first line of a range', () => {
+		const text = 'function Foo()\n{\n    local int i;\nBar();\n}\n';
+		const formatted = format(text, Range.create(3, 0, 3, 6));
+		expect(formatted).to.equal('function Foo()\n{\n    local int i;\n\tBar();\n}\n');
+	});
+
+	it('re-indents a closing brace when typed', () => {
+		const text = 'function Foo()\n{\n\tif (true)\n\t{\n\t\tBar();\n\t\t}\n}\n';
+		const formatted = format(text, Range.create(5, 0, 5, 0));
+		expect(formatted).to.equal('function Foo()\n{\n\tif (true)\n\t{\n\t\tBar();\n\t}\n}\n');
+	});
+
+	it('formats the code that follows an identifier named map', () => {
+		const text = 'var Map Map;\n\nfunction Foo()\n{\nif (Map == none) {\nBar();\n}\n}\n';
+		expect(format(text)).to.equal('var Map Map;\n\nfunction Foo()\n{\n\tif (Map == none) {\n\t\tBar();\n\t}\n}\n');
+	});
+
+	it('leaves the C++ text of a map type as is', () => {
+		const text = 'var native map{FName,  INT} Pairs;\n';
+		expect(format(text)).to.equal(text);
+	});
+
+	it('indents the comments, but leaves their text as is', () => {
+		const text = 'function Foo()\n{\n// Bar\nBar(); // Baz\n  /* { Qux */\n}\n';
+		expect(format(text)).to.equal('function Foo()\n{\n\t// Bar\n\tBar(); // Baz\n\t/* { Qux */\n}\n');
+	});
+
+	it('ignores the braces of string and name literals', () => {
+		const text = 'function Foo()\n{\nBar("{", \'}\');\nBaz();\n}\n';
+		expect(format(text)).to.equal('function Foo()\n{\n\tBar("{", \'}\');\n\tBaz();\n}\n');
+	});
+
+	it('leaves the C++ text of a cpptext block as is', () => {
+		const text = 'cpptext\n{\n    void Foo();\n  int A=1;\n}\n\nvar int B;\n';
+		expect(format(text)).to.equal(text);
+	});
+
+	it('leaves the C++ text of a structcpptext block as is', () => {
+		const text = 'struct Foo\n{\nvar int A;\nstructcpptext\n{\n  FFoo() {}\n}\n};\n';
+		expect(format(text)).to.equal('struct Foo\n{\n\tvar int A;\n\tstructcpptext\n\t{\n  FFoo() {}\n}\n};\n');
+	});
+
+	it('leaves the preprocessor lines as is', () => {
+		const text = '#exec OBJ LOAD FILE=Foo.utx\n\nfunction Foo()\n{\n  `if(`isdefined(DEBUG))\nBar();\n    `endif\n}\n';
+		expect(format(text)).to.equal('#exec OBJ LOAD FILE=Foo.utx\n\nfunction Foo()\n{\n  `if(`isdefined(DEBUG))\n\tBar();\n    `endif\n}\n');
+	});
+
+	it('leaves the metadata of a variable declaration as is', () => {
+		const text = 'var int A<UIMin=0.0|UIMax=1.0>;\n';
+		expect(format(text)).to.equal(text);
+	});
+
+	it('strips the trailing whitespace of a line', () => {
+		expect(format('var int A;  \nvar int B; \t\n')).to.equal('var int A;\nvar int B;\n');
+	});
+
+	it('indents with spaces', () => {
+		const text = 'function Foo()\n{\nBar();\n}\n';
+		expect(format(text, undefined, { indentation: EIndentation.Spaces, indentSize: 2 })).to.equal('function Foo()\n{\n  Bar();\n}\n');
+	});
+
+	it('spaces out the binary operators, but not the unary operators', () => {
+		const text = 'function Foo()\n{\nA=B+1;\nreturn -A;\n}\n';
+		expect(format(text)).to.equal('function Foo()\n{\n\tA = B + 1;\n\treturn -A;\n}\n');
+	});
+
+	it('leaves the operators as is if disabled', () => {
+		const text = 'function Foo()\n{\n\tA=B+1;\n}\n';
+		expect(format(text, undefined, { spaceAroundOperators: false })).to.equal(text);
+	});
+
+	it('indents the continued lines of a statement', () => {
+		const text = 'function Foo()\n{\nBar(A,\nB);\nC = A\n+ B;\n}\n';
+		expect(format(text)).to.equal('function Foo()\n{\n\tBar(A,\n\t\tB);\n\tC = A\n\t\t+ B;\n}\n');
+	});
+
+	it('indents the body of a control statement without braces', () => {
+		const text = 'function Foo()\n{\nif (A)\nBar();\nBaz();\n}\n';
+		expect(format(text)).to.equal('function Foo()\n{\n\tif (A)\n\t\tBar();\n\tBaz();\n}\n');
+	});
+
+	it('indents the statements of a case clause, but not its label', () => {
+		const text = 'function Foo()\n{\nswitch (A)\n{\ncase 1:\nBar();\nbreak;\ndefault:\nBaz();\n}\n}\n';
+		expect(format(text)).to.equal('function Foo()\n{\n\tswitch (A)\n\t{\n\t\tcase 1:\n\t\t\tBar();\n\t\t\tbreak;\n\t\tdefault:\n\t\t\tBaz();\n\t}\n}\n');
+	});
+
+	it('indents the members of an enum', () => {
+		expect(format('enum EFoo\n{\nA,\nB\n};\n')).to.equal('enum EFoo\n{\n\tA,\n\tB\n};\n');
+	});
+
+	it('moves a brace to the next line', () => {
+		const text = 'function Foo() {\nBar();\n}\n';
+		expect(format(text, undefined, { braceStyle: EBraceStyle.NextLine })).to.equal('function Foo()\n{\n\tBar();\n}\n');
+	});
+
+	it('moves a brace to the same line', () => {
+		const text = 'function Foo()\n{\nBar();\n}\n';
+		expect(format(text, undefined, { braceStyle: EBraceStyle.SameLine })).to.equal('function Foo() {\n\tBar();\n}\n');
+	});
+
+	it('indents the objects of a defaultproperties block, but leaves its operators as is', () => {
+		const text = 'defaultproperties\n{\nbHidden=true\nBegin Object Class=Foo Name=Bar\nX=1\nEnd Object\nComponents.Add(Bar)\n}\n';
+		expect(format(text)).to.equal('defaultproperties\n{\n\tbHidden=true\n\tBegin Object Class=Foo Name=Bar\n\t\tX=1\n\tEnd Object\n\tComponents.Add(Bar)\n}\n');
+	});
+
+	it('aligns the assignments of consecutive defaultproperties lines', () => {
+		const text = 'defaultproperties\n{\n\tA=1\n\tLongName=2\n\n\tB=3\n}\n';
+		expect(format(text, undefined, { alignDefaultProperties: true })).to.equal('defaultproperties\n{\n\tA       =1\n\tLongName=2\n\n\tB=3\n}\n');
+	});
+});
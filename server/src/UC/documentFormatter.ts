@@ -0,0 +1,521 @@
+import { FormattingOptions, Position, Range, TextEdit } from 'vscode-languageserver';
+import { Token } from 'antlr4ts';
+
+import { UCLexer } from '../antlr/UCLexer';
+import { CaseInsensitiveStream } from './Parser/CaseInsensitiveStream';
+import { UCFormatOptions, EBraceStyle, EIndentation } from '../settings';
+
+enum BlockKind {
+	Block,
+	Enum,
+	Switch,
+	Defaults
+}
+
+// Tokens that are spaced out when used as a binary operator.
+// Excludes '<' and '>' because we cannot tell them apart from a type's or a metadata's brackets without a parser.
+const OperatorTokenTypes = new Set<number>([
+	UCLexer.PLUS, UCLexer.MINUS, UCLexer.STAR, UCLexer.DIV, UCLexer.MODULUS,
+	UCLexer.CARET, UCLexer.AMP, UCLexer.BITWISE_OR, UCLexer.AT, UCLexer.DOLLAR,
+	UCLexer.OR, UCLexer.AND, UCLexer.EQ, UCLexer.NEQ, UCLexer.GEQ, UCLexer.LEQ,
+	UCLexer.IEQ, UCLexer.MEQ, UCLexer.EXP, UCLexer.LSHIFT,
+	UCLexer.ASSIGNMENT, UCLexer.ASSIGNMENT_INCR, UCLexer.ASSIGNMENT_DECR,
+	UCLexer.ASSIGNMENT_AT, UCLexer.ASSIGNMENT_DOLLAR, UCLexer.ASSIGNMENT_AND,
+	UCLexer.ASSIGNMENT_OR, UCLexer.ASSIGNMENT_STAR, UCLexer.ASSIGNMENT_CARET,
+	UCLexer.ASSIGNMENT_DIV
+]);
+
+const OperandTokenTypes = new Set<number>([
+	UCLexer.ID, UCLexer.INTEGER, UCLexer.FLOAT, UCLexer.STRING, UCLexer.NAME,
+	UCLexer.CLOSE_PARENS, UCLexer.CLOSE_BRACKET
+]);
+
+// Keywords that may be followed by an unary operator e.g. "return -1;"
+const UnaryPrecedingKeywords = new Set<string>(['return', 'case', 'until']);
+
+// Keywords that are followed by a block of C++ text.
+// Excludes 'map', which is only followed by C++ text when it is a type e.g. "map{FName, INT}", and is otherwise a common identifier.
+const ExportKeywords = new Set<string>(['cpptext', 'structcpptext', 'cppstruct']);
+
+const ControlKeywords = new Set<string>(['if', 'while', 'for', 'foreach']);
+
+/**
+ * Returns the @edits that end within the lines of @range.
+ * An edit of a line's indentation starts at the end of the previous line, thus we cannot rely on the start of an edit.
+ */
+export function getEditsWithinLines(edits: TextEdit[], range: Range): TextEdit[] {
+	return edits.filter(edit => edit.range.end.line >= range.start.line && edit.range.end.line <= range.end.line);
+}
+
+interface IAlignment {
+	line: number;
+	keyWidth: number;
+	gapStart: number;
+	gap: string;
+	objectLevel: number;
+}
+
+/**
+ * Formats the whitespace between the tokens of a document, the tokens themselves are never touched.
+ * Comments, preprocessor macros, directives (e.g. #exec) and C++ blocks are left as they are.
+ */
+export class DocumentFormatter {
+	private edits: TextEdit[] = [];
+	private lineOffsets: number[] = [0];
+	private indentText: string;
+	private lineBreak: string;
+
+	private tokens: Token[] = [];
+
+	private blocks: BlockKind[] = [];
+	private pendingBlockKind?: BlockKind;
+	private parenLevel = 0;
+	private exportLevel = 0;
+	private objectLevel = 0;
+
+	// Block levels of the pending statements that are the body of a control statement without braces.
+	private singleStatements: number[] = [];
+	private isPendingControl = false;
+	private isExpectingBody = false;
+	private isBodyStart = false;
+
+	private isPendingExport = false;
+	private isInVarDecl = false;
+	private hasVarDeclInlineType = false;
+	private isDirectiveLine = false;
+
+	// The last code token, undefined at the start of the document or after a macro or directive.
+	private lastToken?: Token;
+	private isLastTokenBinaryOperator = false;
+
+	private lineStartToken?: Token;
+	private alignments: IAlignment[] = [];
+
+	constructor(private text: string, private options: UCFormatOptions, formattingOptions: FormattingOptions) {
+		for (let i = 0; i < text.length; ++i) {
+			if (text[i] === '\n') {
+				this.lineOffsets.push(i + 1);
+			}
+		}
+
+		this.indentText = options.indentation === EIndentation.Tabs
+			? '\t'
+			: options.indentation === EIndentation.Spaces
+			? ' '.repeat(options.indentSize)
+			: formattingOptions.insertSpaces
+			? ' '.repeat(formattingOptions.tabSize)
+			: '\t';
+		this.lineBreak = text.indexOf('\r\n') !== -1 ? '\r\n' : '\n';
+	}
+
+	format(): TextEdit[] {
+		const lexer = new UCLexer(new CaseInsensitiveStream(this.text));
+		lexer.removeErrorListeners();
+		this.tokens = lexer.getAllTokens()
+			.filter(token => token.type !== UCLexer.WS && token.type !== UCLexer.MACRO_NEW_LINE);
+
+		for (let i = 0; i < this.tokens.length; ++i) {
+			this.formatToken(i);
+		}
+
+		const lastToken = this.tokens[this.tokens.length - 1];
+		if (lastToken) {
+			const start = lastToken.stopIndex + 1;
+			const gap = this.text.substring(start);
+			this.replaceGap(start, gap, gap.replace(/[ \t]+(?=\r?\n|$)/g, ''));
+		}
+
+		if (this.options.alignDefaultProperties) {
+			this.alignDefaultProperties();
+		}
+		return this.edits;
+	}
+
+	private formatToken(index: number) {
+		const token = this.tokens[index];
+		const prevToken = this.tokens[index - 1];
+		const gapStart = prevToken ? prevToken.stopIndex + 1 : 0;
+		const gap = this.text.substring(gapStart, token.startIndex);
+		const isLineStart = !prevToken || gap.indexOf('\n') !== -1;
+
+		if (isLineStart) {
+			this.lineStartToken = token;
+			this.isDirectiveLine = token.type === UCLexer.SHARP;
+		}
+
+		// Everything within a C++ block is left as is, including the indentation of its closing brace.
+		if (this.exportLevel > 0) {
+			if (token.type === UCLexer.OPEN_BRACE) {
+				++ this.exportLevel;
+			} else if (token.type === UCLexer.CLOSE_BRACE && -- this.exportLevel === 0) {
+				this.lastToken = token;
+			}
+			return;
+		}
+
+		const isCode = token.channel === Token.DEFAULT_CHANNEL && !this.isDirectiveLine;
+		this.isBodyStart = false;
+		if (isCode && this.isExpectingBody) {
+			this.isExpectingBody = false;
+			if (isLineStart && token.type !== UCLexer.OPEN_BRACE) {
+				this.singleStatements.push(this.blocks.length);
+				this.isBodyStart = true;
+			}
+		}
+
+		if (prevToken) {
+			if (isLineStart) {
+				this.formatLineStart(index, gapStart, gap);
+			} else {
+				this.formatInline(index, gapStart, gap);
+			}
+		}
+
+		if (token.channel === UCLexer.MACRO || this.isDirectiveLine) {
+			this.lastToken = undefined;
+			this.isLastTokenBinaryOperator = false;
+			return;
+		}
+
+		if (token.channel !== Token.DEFAULT_CHANNEL) {
+			return;
+		}
+
+		this.visitToken(index);
+	}
+
+	private formatLineStart(index: number, gapStart: number, gap: string) {
+		const token = this.tokens[index];
+		const prevToken = this.tokens[index - 1];
+
+		// Strip any trailing whitespace, but preserve the line breaks.
+		const lineBreaks = gap
+			.substring(0, gap.lastIndexOf('\n') + 1)
+			.replace(/[ \t]+(?=\r?\n)/g, '');
+
+		if (token.channel === UCLexer.MACRO || this.isDirectiveLine) {
+			this.replaceGap(gapStart, gap, lineBreaks + gap.substring(gap.lastIndexOf('\n') + 1));
+			return;
+		}
+
+		if (this.options.braceStyle === EBraceStyle.SameLine
+			&& this.isBlockBrace(token)
+			&& this.lastToken && this.lastToken === prevToken) {
+			this.replaceGap(gapStart, gap, ' ');
+			return;
+		}
+
+		this.replaceGap(gapStart, gap, lineBreaks + this.indentText.repeat(this.getIndentLevel(index)));
+	}
+
+	private formatInline(index: number, gapStart: number, gap: string) {
+		const token = this.tokens[index];
+		const prevToken = this.tokens[index - 1];
+		if (token.channel === UCLexer.MACRO || prevToken.channel === UCLexer.MACRO || this.isDirectiveLine) {
+			return;
+		}
+
+		// Only move a brace that ends its line, so that we don't break up any one-liners.
+		if (this.options.braceStyle === EBraceStyle.NextLine
+			&& this.isBlockBrace(token)
+			&& this.lastToken && this.lastToken === prevToken
+			&& this.isLineEnd(index)) {
+			this.replaceGap(gapStart, gap, this.lineBreak + this.indentText.repeat(this.getIndentLevel(index)));
+			return;
+		}
+
+		// Declarations may contain metadata such as <UIMin=0.0|UIMax=1.0>, which has to be left as is.
+		if (!this.options.spaceAroundOperators
+			|| this.isInVarDecl
+			|| this.isInDefaults()
+			|| this.blocks[this.blocks.length - 1] === BlockKind.Enum) {
+			return;
+		}
+
+		if (this.isBinaryOperator(token) || (this.isLastTokenBinaryOperator && this.lastToken === prevToken)) {
+			this.replaceGap(gapStart, gap, ' ');
+		}
+	}
+
+	private visitToken(index: number) {
+		const token = this.tokens[index];
+		this.isLastTokenBinaryOperator = this.isBinaryOperator(token);
+
+		switch (token.type) {
+			case UCLexer.OPEN_PARENS:
+				++ this.parenLevel;
+				break;
+
+			case UCLexer.CLOSE_PARENS:
+				if (this.parenLevel > 0) {
+					-- this.parenLevel;
+				}
+
+				if (this.parenLevel === 0 && this.isPendingControl) {
+					this.isPendingControl = false;
+					this.isExpectingBody = true;
+				}
+				break;
+
+			case UCLexer.OPEN_BRACE:
+				if (this.isExportBrace()) {
+					this.isPendingExport = false;
+					this.exportLevel = 1;
+					break;
+				}
+
+				this.blocks.push(typeof this.pendingBlockKind !== 'undefined' ? this.pendingBlockKind : BlockKind.Block);
+				this.pendingBlockKind = undefined;
+				break;
+
+			case UCLexer.CLOSE_BRACE:
+				this.blocks.pop();
+				this.endSingleStatements();
+				if (!this.isInDefaults()) {
+					this.objectLevel = 0;
+				}
+				break;
+
+			case UCLexer.SEMICOLON:
+				if (this.parenLevel === 0) {
+					this.pendingBlockKind = undefined;
+					this.isPendingExport = false;
+					this.isInVarDecl = false;
+					this.hasVarDeclInlineType = false;
+					this.endSingleStatements();
+				}
+				break;
+
+			default: {
+				const keyword = token.text!.toLowerCase();
+				if (keyword === 'var') {
+					this.isInVarDecl = this.parenLevel === 0;
+				} else if (keyword === 'enum') {
+					this.pendingBlockKind = BlockKind.Enum;
+					this.hasVarDeclInlineType = this.isInVarDecl;
+				} else if (keyword === 'struct') {
+					this.hasVarDeclInlineType = this.isInVarDecl;
+				} else if (keyword === 'switch') {
+					this.pendingBlockKind = BlockKind.Switch;
+				} else if (keyword === 'defaultproperties' || keyword === 'structdefaultproperties') {
+					this.pendingBlockKind = BlockKind.Defaults;
+				} else if (ExportKeywords.has(keyword)
+					|| (keyword === 'map' && this.isNextTokenOfType(index, UCLexer.OPEN_BRACE))) {
+					this.isPendingExport = true;
+				} else if (ControlKeywords.has(keyword) && this.parenLevel === 0) {
+					this.isPendingControl = true;
+				} else if (keyword === 'else' || keyword === 'do') {
+					this.isExpectingBody = true;
+				}
+				break;
+			}
+		}
+
+		if (token.type === UCLexer.ASSIGNMENT && this.isInDefaults() && this.parenLevel === 0) {
+			this.addAlignment(index);
+		}
+		this.lastToken = token;
+	}
+
+	private getIndentLevel(index: number): number {
+		const token = this.tokens[index];
+		const keyword = token.text!.toLowerCase();
+
+		let level = this.blocks.length;
+		if (token.type === UCLexer.CLOSE_BRACE && level > 0) {
+			-- level;
+		}
+
+		let extraLevel = 0;
+
+		const isCaseLabel = keyword === 'case' || (keyword === 'default' && this.isNextTokenOfType(index, UCLexer.COLON));
+		for (let i = 0; i < level; ++ i) {
+			if (this.blocks[i] !== BlockKind.Switch) {
+				continue;
+			}
+
+			// Indent the statements of a case clause, but not the case label itself.
+			const switchLevel = i + 1;
+			if (level > switchLevel || !isCaseLabel) {
+				++ extraLevel;
+			}
+		}
+
+		for (const statementLevel of this.singleStatements) {
+			if (statementLevel <= level) {
+				++ extraLevel;
+			}
+		}
+
+		if (this.isInDefaults()) {
+			if (keyword === 'end' && this.isNextTokenOfType(index, UCLexer.KW_OBJECT)) {
+				this.objectLevel = Math.max(this.objectLevel - 1, 0);
+				extraLevel += this.objectLevel;
+			} else if (keyword === 'begin' && this.isNextTokenOfType(index, UCLexer.KW_OBJECT)) {
+				extraLevel += this.objectLevel ++;
+			} else {
+				extraLevel += this.objectLevel;
+			}
+		} else if (this.parenLevel > 0 || this.isContinuation(index)) {
+			++ extraLevel;
+		}
+		return level + extraLevel;
+	}
+
+	// Whether the token continues the statement or declaration of the previous line.
+	private isContinuation(index: number): boolean {
+		const token = this.tokens[index];
+		// The body of a control statement is already indented.
+		if (!this.lastToken
+			|| this.isBodyStart
+			|| token.channel !== Token.DEFAULT_CHANNEL
+			|| token.type === UCLexer.OPEN_BRACE
+			|| token.type === UCLexer.CLOSE_BRACE
+			|| this.blocks[this.blocks.length - 1] === BlockKind.Enum) {
+			return false;
+		}
+
+		switch (this.lastToken.type) {
+			case UCLexer.SEMICOLON:
+			case UCLexer.OPEN_BRACE:
+			case UCLexer.CLOSE_BRACE:
+			case UCLexer.COLON:
+				return false;
+		}
+		return true;
+	}
+
+	private isBinaryOperator(token: Token): boolean {
+		if (!OperatorTokenTypes.has(token.type) || token.channel !== Token.DEFAULT_CHANNEL) {
+			return false;
+		}
+
+		const operand = this.lastToken;
+		if (!operand) {
+			return false;
+		}
+
+		if (OperandTokenTypes.has(operand.type)) {
+			return true;
+		}
+
+		// Any other keyword such as "self" or "none".
+		const text = operand.text!;
+		return /^\w+$/.test(text) && !UnaryPrecedingKeywords.has(text.toLowerCase());
+	}
+
+	private isBlockBrace(token: Token): boolean {
+		return token.type === UCLexer.OPEN_BRACE
+			&& token.channel === Token.DEFAULT_CHANNEL
+			&& !this.isExportBrace();
+	}
+
+	private isExportBrace(): boolean {
+		return this.isPendingExport
+			|| (this.isInVarDecl && !this.hasVarDeclInlineType)
+			// struct {C++ text} ...
+			|| (!!this.lastToken && this.lastToken.text!.toLowerCase() === 'struct');
+	}
+
+	private isInDefaults(): boolean {
+		return this.blocks.indexOf(BlockKind.Defaults) !== -1;
+	}
+
+	private isLineEnd(index: number): boolean {
+		const token = this.tokens[index];
+		const nextToken = this.tokens[index + 1];
+		if (!nextToken || nextToken.channel === UCLexer.COMMENTS_CHANNEL) {
+			return true;
+		}
+		return this.text.substring(token.stopIndex + 1, nextToken.startIndex).indexOf('\n') !== -1;
+	}
+
+	private isNextTokenOfType(index: number, type: number): boolean {
+		for (let i = index + 1; i < this.tokens.length; ++ i) {
+			const token = this.tokens[i];
+			if (token.channel === Token.DEFAULT_CHANNEL) {
+				return token.type === type;
+			}
+		}
+		return false;
+	}
+
+	private endSingleStatements() {
+		const level = this.blocks.length;
+		this.singleStatements = this.singleStatements.filter(statementLevel => statementLevel < level);
+	}
+
+	private addAlignment(index: number) {
+		const token = this.tokens[index];
+		const prevToken = this.tokens[index - 1];
+		const lineStartToken = this.lineStartToken;
+		if (!prevToken || !lineStartToken || prevToken.startIndex < lineStartToken.startIndex) {
+			return;
+		}
+
+		const keyword = lineStartToken.text!.toLowerCase();
+		if (keyword === 'begin' || keyword === 'end') {
+			return;
+		}
+
+		const line = this.positionAt(token.startIndex).line;
+		// Only the first assignment of a line.
+		const lastAlignment = this.alignments[this.alignments.length - 1];
+		if (lastAlignment && lastAlignment.line === line) {
+			return;
+		}
+
+		const gapStart = prevToken.stopIndex + 1;
+		this.alignments.push({
+			line,
+			keyWidth: gapStart - lineStartToken.startIndex,
+			gapStart,
+			gap: this.text.substring(gapStart, token.startIndex),
+			objectLevel: this.objectLevel
+		});
+	}
+
+	// Aligns the assignment operators of consecutive lines.
+	private alignDefaultProperties() {
+		let group: IAlignment[] = [];
+		const alignGroup = () => {
+			if (group.length > 1) {
+				const keyWidth = Math.max(...group.map(a => a.keyWidth));
+				for (const alignment of group) {
+					this.replaceGap(alignment.gapStart, alignment.gap, ' '.repeat(keyWidth - alignment.keyWidth));
+				}
+			}
+			group = [];
+		};
+
+		for (const alignment of this.alignments) {
+			const lastAlignment = group[group.length - 1];
+			if (lastAlignment && (lastAlignment.line + 1 !== alignment.line || lastAlignment.objectLevel !== alignment.objectLevel)) {
+				alignGroup();
+			}
+			group.push(alignment);
+		}
+		alignGroup();
+	}
+
+	private replaceGap(start: number, gap: string, newText: string) {
+		if (gap === newText) {
+			return;
+		}
+		this.edits.push(TextEdit.replace(Range.create(this.positionAt(start), this.positionAt(start + gap.length)), newText));
+	}
+
+	private positionAt(offset: number): Position {
+		let low = 0, high = this.lineOffsets.length;
+		while (low < high) {
+			const mid = Math.floor((low + high) / 2);
+			if (this.lineOffsets[mid] > offset) {
+				high = mid;
+			} else {
+				low = mid + 1;
+			}
+		}
+		const line = low - 1;
+		return Position.create(line, offset - this.lineOffsets[line]);
+	}
+}
@@ -0,0 +1,199 @@
+import { InlayHint, InlayHintKind, Position, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { DefaultExpressionWalker } from './expressionWalker';
+import { IStatement, UCForEachStatement } from './statements';
+import { IExpression, UCCallExpression, UCMemberExpression } from './expressions';
+import { ISymbol, UCMethodSymbol, UCPropertySymbol } from './Symbols';
+import { resolveCallee } from './callsCollector';
+import { UCDocument } from './document';
+import { intersectsWith } from './helpers';
+import { UCInlayHintsOptions } from '../settings';
+
+function rangesIntersect(a: Range, b: Range): boolean {
+	return !(a.end.line < b.start.line || a.start.line > b.end.line);
+}
+
+export class DocumentInlayHintsBuilder extends DefaultExpressionWalker {
+	private hints: InlayHint[] = [];
+	private range: Range;
+
+	constructor(private document: UCDocument, private textDocument: TextDocument, private options: UCInlayHintsOptions) {
+		super();
+	}
+
+	build(range: Range): InlayHint[] {
+		this.range = range;
+		if (this.document.class) {
+			this.document.class.accept<any>(this);
+		}
+		return this.hints.filter(hint => intersectsWith(range, hint.position));
+	}
+
+	visitMethod(symbol: UCMethodSymbol): ISymbol {
+		// Skip the functions that are out of view.
+		if (!rangesIntersect(symbol.getRange(), this.range)) {
+			return symbol;
+		}
+		return super.visitMethod(symbol);
+	}
+
+	visitStatement(stm: IStatement) {
+		if (this.options.iteratorTypes && stm instanceof UCForEachStatement && stm.expression instanceof UCCallExpression) {
+			this.pushIteratorTypeHints(stm.expression);
+		}
+		return super.visitStatement(stm);
+	}
+
+	visitExpression(expr: IExpression) {
+		if (expr instanceof UCCallExpression) {
+			this.pushArgumentHints(expr);
+		}
+		return super.visitExpression(expr);
+	}
+
+	private pushArgumentHints(call: UCCallExpression) {
+		const callInfo = call.expression && call.arguments && resolveCallee(call.expression);
+		const params = callInfo && callInfo.method.params;
+		if (!params) {
+			return;
+		}
+
+		const args = call.arguments!;
+		for (let i = 0; i < args.length && i < params.length; ++ i) {
+			const arg = args[i];
+			const param = params[i];
+			if (arg) {
+				// Redundant for an argument that is named after the parameter.
+				if (this.options.parameterNames && !(arg instanceof UCMemberExpression && arg.getId() === param.getId())) {
+					this.hints.push({
+						position: arg.getRange().start,
+						label: `${param.getId()}:`,
+						kind: InlayHintKind.Parameter,
+						paddingRight: true
+					});
+				}
+			} else if (this.options.skippedParameters) {
+				const position = this.getArgumentPosition(call, i);
+				if (position) {
+					this.hints.push({
+						position,
+						label: `${param.getId()}:`,
+						kind: InlayHintKind.Parameter,
+						tooltip: `(skipped) ${param.getTextForSignature()}`,
+						paddingLeft: i > 0
+					});
+				}
+			}
+		}
+
+		// The trailing optional parameters that have been omitted e.g. "Spawn(class'Foo')"
+		if (this.options.skippedParameters && args.length < params.length) {
+			const position = this.getClosingParenthesisPosition(call);
+			if (!position) {
+				return;
+			}
+
+			for (let i = args.length; i < params.length; ++ i) {
+				const param = params[i];
+				if (!param.isOptional()) {
+					continue;
+				}
+
+				this.hints.push({
+					position,
+					label: `${param.getId()}:`,
+					kind: InlayHintKind.Parameter,
+					tooltip: `(skipped) ${param.getTextForSignature()}`,
+					paddingLeft: i > 0
+				});
+			}
+		}
+	}
+
+	/**
+	 * Shows the type of the variables that are assigned by an iterator e.g. "foreach AllActors(class'Pawn', P: Pawn)"
+	 */
+	private pushIteratorTypeHints(call: UCCallExpression) {
+		if (!call.arguments) {
+			return;
+		}
+
+		for (const arg of call.arguments) {
+			const symbol = arg instanceof UCMemberExpression && arg.getMemberSymbol();
+			if (symbol instanceof UCPropertySymbol && symbol.type) {
+				this.hints.push({
+					position: arg!.getRange().end,
+					label: `: ${symbol.type.getTypeText()}`,
+					kind: InlayHintKind.Type
+				});
+			}
+		}
+	}
+
+	/**
+	 * Returns the position of the closing parenthesis of @call, the range of a call ends after its closing parenthesis.
+	 */
+	private getClosingParenthesisPosition(call: UCCallExpression): Position | undefined {
+		const closeOffset = this.textDocument.offsetAt(call.getRange().end) - 1;
+		if (this.textDocument.getText()[closeOffset] !== ')') {
+			return undefined;
+		}
+		return this.textDocument.positionAt(closeOffset);
+	}
+
+	/**
+	 * Returns the position after the opening parenthesis or the comma that precedes the argument at @index,
+	 * an argument that has been skipped has no expression and thus no range of its own.
+	 */
+	private getArgumentPosition(call: UCCallExpression, index: number): Position | undefined {
+		const text = this.textDocument.getText();
+		const openOffset = text.indexOf('(', this.textDocument.offsetAt(call.expression!.getRange().end));
+		if (openOffset === -1) {
+			return undefined;
+		}
+
+		if (index === 0) {
+			return this.textDocument.positionAt(openOffset + 1);
+		}
+
+		let argumentIndex = 0;
+		let level = 0;
+		let isInString = false;
+		for (let i = openOffset + 1; i < text.length; ++ i) {
+			const char = text[i];
+			if (isInString) {
+				if (char === '\\') {
+					++ i;
+				} else if (char === '"') {
+					isInString = false;
+				}
+				continue;
+			}
+
+			switch (char) {
+				case '"':
+					isInString = true;
+					break;
+
+				case '(': case '[': case '{':
+					++ level;
+					break;
+
+				case ')': case ']': case '}':
+					if (level === 0) {
+						return undefined;
+					}
+					-- level;
+					break;
+
+				case ',':
+					if (level === 0 && ++ argumentIndex === index) {
+						return this.textDocument.positionAt(i + 1);
+					}
+					break;
+			}
+		}
+		return undefined;
+	}
+}
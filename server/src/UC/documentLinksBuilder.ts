@@ -0,0 +1,114 @@
+import * as path from 'path';
+import * as fs from 'fs';
+
+import { DocumentLink, Range } from 'vscode-languageserver';
+import { Token } from 'antlr4ts';
+import { Interval } from 'antlr4ts/misc/Interval';
+import { URI } from 'vscode-uri';
+
+import { MacroProgramContext, MacroIncludeContext } from '../antlr/UCPreprocessorParser';
+
+import { DefaultExpressionWalker } from './expressionWalker';
+import { IExpression, UCObjectLiteral } from './expressions';
+import { UCDocument } from './document';
+import { filePathByClassIdMap$, getUriById } from './indexer';
+import { NAME_CLASS } from './names';
+
+export interface IIncludePath {
+	path: string;
+	range: Range;
+}
+
+/**
+ * Reads the path that follows an `include token e.g. "`include(Engine\Classes\Foo.uci)".
+ * The preprocessor does not parse the path, thus we have to read it from the text.
+ */
+export function getIncludePath(includeToken: Token): IIncludePath | undefined {
+	const stream = includeToken.inputStream;
+	if (!stream) {
+		return undefined;
+	}
+
+	const startIndex = includeToken.stopIndex + 1;
+	const text = stream.getText(Interval.of(startIndex, Math.min(startIndex + 255, stream.size - 1)));
+	const match = text.match(/^([ \t]*\([ \t]*)([^)\r\n]*?)[ \t]*\)/);
+	if (!match || !match[2]) {
+		return undefined;
+	}
+
+	const line = includeToken.line - 1;
+	const character = includeToken.charPositionInLine + (includeToken.text || '').length + match[1].length;
+	return {
+		path: match[2],
+		range: Range.create(line, character, line, character + match[2].length)
+	};
+}
+
+/**
+ * Resolves an include path relative to the package of @document, or to the directory that contains the packages.
+ * Otherwise any workspace file whose path ends with the include path.
+ */
+export function resolveIncludePath(document: UCDocument, includePath: string): string | undefined {
+	const relativePath = includePath.replace(/[\\/]+/g, path.sep);
+	const classesDir = path.dirname(URI.parse(document.filePath).fsPath);
+	const packagesDir = path.dirname(path.dirname(classesDir));
+	for (const dir of [classesDir, packagesDir]) {
+		const filePath = path.join(dir, relativePath);
+		if (fs.existsSync(filePath)) {
+			return URI.file(filePath).toString();
+		}
+	}
+
+	// The map is keyed by the lowercased file name.
+	const filePath = filePathByClassIdMap$.getValue().get(path.basename(relativePath).toLowerCase());
+	if (filePath && (path.sep + filePath.toLowerCase()).endsWith(path.sep + relativePath.toLowerCase())) {
+		return URI.file(filePath).toString();
+	}
+	return undefined;
+}
+
+export class DocumentLinksBuilder extends DefaultExpressionWalker {
+	private links: DocumentLink[] = [];
+
+	constructor(private document: UCDocument) {
+		super();
+	}
+
+	build(): DocumentLink[] {
+		if (this.document.class) {
+			this.document.class.accept<any>(this);
+		}
+
+		if (this.document.macroTree) {
+			this.pushIncludeLinks(this.document.macroTree);
+		}
+		return this.links;
+	}
+
+	// The includes are taken from the document's last build, re-running the preprocessor would re-apply its side effects.
+	private pushIncludeLinks(macroTree: MacroProgramContext) {
+		for (const smNode of macroTree.macroStatement()) {
+			const macroCtx = smNode.macro();
+			if (!(macroCtx instanceof MacroIncludeContext)) {
+				continue;
+			}
+
+			const include = getIncludePath(macroCtx.MACRO_INCLUDE().symbol);
+			const target = include && resolveIncludePath(this.document, include.path);
+			if (target) {
+				this.links.push(DocumentLink.create(include!.range, target, include!.path));
+			}
+		}
+	}
+
+	visitExpression(expr: IExpression) {
+		// e.g. class'Engine.Pawn', links to the file of Pawn.
+		if (expr instanceof UCObjectLiteral && expr.objectRef && expr.castRef.getId() === NAME_CLASS) {
+			const target = getUriById(expr.objectRef.getId().toString().toLowerCase(), this.document.filePath);
+			if (target) {
+				this.links.push(DocumentLink.create(expr.objectRef.getRange(), target));
+			}
+		}
+		return super.visitExpression(expr);
+	}
+}
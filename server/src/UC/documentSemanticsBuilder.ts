@@ -0,0 +1,311 @@
+import { Range, SemanticTokensBuilder, SemanticTokenTypes, SemanticTokenModifiers, SemanticTokensLegend } from 'vscode-languageserver';
+
+import { DefaultExpressionWalker } from './expressionWalker';
+import {
+	ISymbol, UCSymbol, UCSymbolReference,
+	UCClassSymbol, UCScriptStructSymbol,
+	UCEnumSymbol, UCEnumMemberSymbol,
+	UCStateSymbol, UCMethodSymbol,
+	UCMethodLikeSymbol, UCEventSymbol,
+	UCDelegateSymbol, UCBaseOperatorSymbol,
+	UCPropertySymbol, UCParamSymbol,
+	UCLocalSymbol, UCConstSymbol,
+	UCPackage, UCObjectTypeSymbol,
+	UCReplicationBlock, UCDefaultPropertiesBlock,
+	UCObjectSymbol,
+} from './Symbols';
+import {
+	IExpression,
+	UCMemberExpression, UCPredefinedAccessExpression, UCPredefinedPropertyAccessExpression,
+	UCBinaryOperatorExpression, UCPreOperatorExpression, UCPostOperatorExpression,
+	UCSuperExpression, UCObjectLiteral
+} from './expressions';
+import { UCDocument } from './document';
+
+export const TokenTypes = [
+	SemanticTokenTypes.namespace,
+	SemanticTokenTypes.type,
+	SemanticTokenTypes.class,
+	SemanticTokenTypes.enum,
+	SemanticTokenTypes.interface,
+	SemanticTokenTypes.struct,
+	SemanticTokenTypes.parameter,
+	SemanticTokenTypes.variable,
+	SemanticTokenTypes.property,
+	SemanticTokenTypes.enumMember,
+	SemanticTokenTypes.event,
+	SemanticTokenTypes.function,
+	SemanticTokenTypes.macro,
+	SemanticTokenTypes.operator,
+	// Custom types, see "semanticTokenTypes" in the extension's package.json
+	'state',
+	'delegate'
+];
+
+export const TokenModifiers = [
+	SemanticTokenModifiers.declaration,
+	SemanticTokenModifiers.static,
+	SemanticTokenModifiers.readonly,
+	SemanticTokenModifiers.defaultLibrary,
+	// Custom modifiers, see "semanticTokenModifiers" in the extension's package.json
+	'final',
+	'unresolved'
+];
+
+export const TokensLegend: SemanticTokensLegend = {
+	tokenTypes: TokenTypes,
+	tokenModifiers: TokenModifiers
+};
+
+const TokenTypeIndex = new Map<string, number>(TokenTypes.map((type, index) => [type, index]));
+
+function modifierFlag(modifier: string): number {
+	return 1 << TokenModifiers.indexOf(modifier);
+}
+
+const DeclarationFlag = modifierFlag(SemanticTokenModifiers.declaration);
+const StaticFlag = modifierFlag(SemanticTokenModifiers.static);
+const ReadonlyFlag = modifierFlag(SemanticTokenModifiers.readonly);
+const DefaultLibraryFlag = modifierFlag(SemanticTokenModifiers.defaultLibrary);
+const FinalFlag = modifierFlag('final');
+const UnresolvedFlag = modifierFlag('unresolved');
+
+interface ISemanticToken {
+	range: Range;
+	type: number;
+	modifiers: number;
+}
+
+/**
+ * Maps a symbol to its semantic token type and modifiers,
+ * returns undefined for symbols that should be left to the grammar, e.g. native types such as "int".
+ */
+function getSymbolToken(symbol: ISymbol): { type: string, modifiers: number } | undefined {
+	if (symbol instanceof UCClassSymbol) {
+		return { type: SemanticTokenTypes.class, modifiers: 0 };
+	} else if (symbol instanceof UCScriptStructSymbol) {
+		return { type: SemanticTokenTypes.struct, modifiers: 0 };
+	} else if (symbol instanceof UCEnumSymbol) {
+		return { type: SemanticTokenTypes.enum, modifiers: 0 };
+	} else if (symbol instanceof UCEnumMemberSymbol) {
+		return { type: SemanticTokenTypes.enumMember, modifiers: ReadonlyFlag };
+	} else if (symbol instanceof UCStateSymbol) {
+		return { type: 'state', modifiers: 0 };
+	} else if (symbol instanceof UCMethodSymbol) {
+		let modifiers = 0;
+		if (symbol.isStatic()) {
+			modifiers |= StaticFlag;
+		}
+		// isStatic is implicit final
+		else if (symbol.isFinal()) {
+			modifiers |= FinalFlag;
+		}
+
+		if (symbol instanceof UCMethodLikeSymbol) {
+			return { type: SemanticTokenTypes.function, modifiers: modifiers | DefaultLibraryFlag };
+		} else if (symbol instanceof UCDelegateSymbol) {
+			return { type: 'delegate', modifiers };
+		} else if (symbol instanceof UCEventSymbol) {
+			return { type: SemanticTokenTypes.event, modifiers };
+		} else if (symbol instanceof UCBaseOperatorSymbol) {
+			return { type: SemanticTokenTypes.operator, modifiers };
+		}
+		return { type: SemanticTokenTypes.function, modifiers };
+	} else if (symbol instanceof UCParamSymbol) {
+		return { type: SemanticTokenTypes.parameter, modifiers: symbol.isConst() ? ReadonlyFlag : 0 };
+	} else if (symbol instanceof UCLocalSymbol) {
+		return { type: SemanticTokenTypes.variable, modifiers: symbol.isConst() ? ReadonlyFlag : 0 };
+	} else if (symbol instanceof UCPropertySymbol) {
+		return { type: SemanticTokenTypes.property, modifiers: symbol.isConst() ? ReadonlyFlag : 0 };
+	} else if (symbol instanceof UCConstSymbol) {
+		return { type: SemanticTokenTypes.variable, modifiers: ReadonlyFlag };
+	} else if (symbol instanceof UCPackage) {
+		return { type: SemanticTokenTypes.namespace, modifiers: 0 };
+	}
+	return undefined;
+}
+
+/**
+ * Collects the semantic tokens of a document by walking its declarations and resolved references.
+ * Expects the document to have been indexed.
+ */
+export class DocumentSemanticsBuilder extends DefaultExpressionWalker {
+	private tokens: ISemanticToken[] = [];
+
+	// Identifiers within defaultproperties are mostly resolved at runtime, so we don't mark those as unresolved.
+	private isInDefaults = false;
+
+	constructor(private document: UCDocument) {
+		super();
+	}
+
+	build(builder: SemanticTokensBuilder) {
+		for (const symbol of this.document.getSymbols()) {
+			if (symbol === this.document.class) {
+				symbol.accept<any>(this);
+				continue;
+			}
+			// Symbols that aren't our class are macro definitions.
+			this.pushToken(symbol.id.range, SemanticTokenTypes.macro, DeclarationFlag);
+		}
+
+		// The builder requires the tokens to be pushed in order of appearance,
+		// -- however our walk order is dictated by the symbol tree.
+		const tokens = this.tokens.sort((a, b) => (a.range.start.line - b.range.start.line) || (a.range.start.character - b.range.start.character));
+
+		let lastToken: ISemanticToken | undefined;
+		for (const token of tokens) {
+			// A type may be shared by multiple declarations e.g. "local int a, b;"
+			if (lastToken
+				&& lastToken.range.start.line === token.range.start.line
+				&& lastToken.range.start.character === token.range.start.character) {
+				continue;
+			}
+
+			builder.push(
+				token.range.start.line, token.range.start.character,
+				token.range.end.character - token.range.start.character,
+				token.type, token.modifiers
+			);
+			lastToken = token;
+		}
+	}
+
+	private pushToken(range: Range, type: string, modifiers: number) {
+		// Tokens may not span multiple lines, also skip any generated symbols such as "EnumCount".
+		if (range.start.line !== range.end.line || range.start.character >= range.end.character) {
+			return;
+		}
+
+		const typeIndex = TokenTypeIndex.get(type);
+		if (typeof typeIndex === 'undefined') {
+			return;
+		}
+		this.tokens.push({ range, type: typeIndex, modifiers });
+	}
+
+	private pushDeclaration(symbol: UCSymbol) {
+		const token = getSymbolToken(symbol);
+		if (token) {
+			this.pushToken(symbol.id.range, token.type, token.modifiers | DeclarationFlag);
+		}
+	}
+
+	private pushReference(range: Range, symbol: ISymbol | undefined, unresolvedType: string) {
+		if (!symbol) {
+			if (!this.isInDefaults) {
+				this.pushToken(range, unresolvedType, UnresolvedFlag);
+			}
+			return;
+		}
+
+		const token = getSymbolToken(symbol);
+		if (token) {
+			this.pushToken(range, token.type, token.modifiers);
+		}
+	}
+
+	private pushSymbolReference(ref: UCSymbolReference | undefined, unresolvedType: string) {
+		if (ref) {
+			this.pushReference(ref.id.range, ref.getReference(), unresolvedType);
+		}
+	}
+
+	visitObjectType(symbol: UCObjectTypeSymbol) {
+		this.pushReference(symbol.id.range, symbol.getReference(), SemanticTokenTypes.type);
+		return super.visitObjectType(symbol);
+	}
+
+	visitClass(symbol: UCClassSymbol) {
+		this.pushDeclaration(symbol);
+		return super.visitClass(symbol);
+	}
+
+	visitConst(symbol: UCConstSymbol) {
+		this.pushDeclaration(symbol);
+		return super.visitConst(symbol);
+	}
+
+	visitEnum(symbol: UCEnumSymbol) {
+		this.pushDeclaration(symbol);
+		return super.visitEnum(symbol);
+	}
+
+	visitEnumMember(symbol: UCEnumMemberSymbol) {
+		this.pushDeclaration(symbol);
+		return super.visitEnumMember(symbol);
+	}
+
+	visitScriptStruct(symbol: UCScriptStructSymbol) {
+		this.pushDeclaration(symbol);
+		return super.visitScriptStruct(symbol);
+	}
+
+	visitProperty(symbol: UCPropertySymbol) {
+		this.pushDeclaration(symbol);
+		return super.visitProperty(symbol);
+	}
+
+	visitMethod(symbol: UCMethodSymbol) {
+		this.pushDeclaration(symbol);
+		return super.visitMethod(symbol);
+	}
+
+	visitState(symbol: UCStateSymbol) {
+		this.pushDeclaration(symbol);
+		if (symbol.ignoreRefs) for (const ref of symbol.ignoreRefs) {
+			this.pushSymbolReference(ref, SemanticTokenTypes.function);
+		}
+		return this.visitStructBase(symbol);
+	}
+
+	visitReplicationBlock(symbol: UCReplicationBlock) {
+		for (const ref of symbol.symbolRefs.values()) {
+			this.pushSymbolReference(ref, SemanticTokenTypes.variable);
+		}
+		return super.visitReplicationBlock(symbol);
+	}
+
+	visitDefaultPropertiesBlock(symbol: UCDefaultPropertiesBlock) {
+		this.isInDefaults = true;
+		try {
+			return super.visitDefaultPropertiesBlock(symbol);
+		} finally {
+			this.isInDefaults = false;
+		}
+	}
+
+	visitObjectSymbol(symbol: UCObjectSymbol) {
+		if (symbol.classType) {
+			symbol.classType.accept<any>(this);
+		}
+		return super.visitObjectSymbol(symbol);
+	}
+
+	visitExpression(expr: IExpression) {
+		if (expr instanceof UCMemberExpression) {
+			// Predefined specifiers (self, default, static, global) are keywords.
+			if (!(expr instanceof UCPredefinedAccessExpression || expr instanceof UCPredefinedPropertyAccessExpression)) {
+				this.pushReference(expr.getRange(), expr.getMemberSymbol(), SemanticTokenTypes.variable);
+			}
+			return expr;
+		}
+
+		if (expr instanceof UCBinaryOperatorExpression || expr instanceof UCPreOperatorExpression || expr instanceof UCPostOperatorExpression) {
+			this.pushOperator(expr.operator);
+		} else if (expr instanceof UCSuperExpression) {
+			this.pushSymbolReference(expr.structRef, SemanticTokenTypes.class);
+		} else if (expr instanceof UCObjectLiteral) {
+			this.pushSymbolReference(expr.castRef, SemanticTokenTypes.class);
+		}
+		return super.visitExpression(expr);
+	}
+
+	// Unresolved operators are reported by the analyzer, and should keep the grammar's highlighting.
+	private pushOperator(ref: UCSymbolReference | undefined) {
+		const symbol = ref && ref.getReference();
+		if (symbol instanceof UCMethodSymbol) {
+			this.pushReference(ref!.id.range, symbol, SemanticTokenTypes.operator);
+		}
+	}
+}
@@ -0,0 +1,68 @@
+import { UCClassSymbol, UCStateSymbol, UCMethodSymbol, UCScriptStructSymbol, UCObjectSymbol, UCObjectTypeSymbol, UCStructSymbol, UCSymbol } from './Symbols';
+import { DefaultExpressionWalker } from './expressionWalker';
+import {
+	IExpression, UCMemberExpression, UCObjectLiteral, UCStructLiteral, UCSuperExpression,
+	UCBinaryOperatorExpression, UCPreOperatorExpression, UCPostOperatorExpression
+} from './expressions';
+import { removeSubtype } from './indexer';
+
+/**
+ * Will reset the links that have been resolved by the indexing of a document,
+ * so that the symbols of the document can be indexed again without having to parse the document.
+ */
+export class DocumentUnlinker extends DefaultExpressionWalker {
+	visitObjectType(symbol: UCObjectTypeSymbol) {
+		const reference = symbol.getReference();
+		// The type of an inline struct or enum declaration refers to its own declaration, which is not resolved by the indexing.
+		if (reference && !(reference instanceof UCSymbol && reference.id === symbol.id)) {
+			symbol.clearReference();
+		}
+		return super.visitObjectType(symbol);
+	}
+
+	visitClass(symbol: UCClassSymbol) {
+		this.unlinkSuper(symbol);
+		return super.visitClass(symbol);
+	}
+
+	visitScriptStruct(symbol: UCScriptStructSymbol) {
+		this.unlinkSuper(symbol);
+		return super.visitScriptStruct(symbol);
+	}
+
+	visitState(symbol: UCStateSymbol) {
+		this.unlinkSuper(symbol);
+		symbol.overriddenState = undefined;
+		return super.visitState(symbol);
+	}
+
+	visitMethod(symbol: UCMethodSymbol) {
+		symbol.overriddenMethod = undefined;
+		return super.visitMethod(symbol);
+	}
+
+	visitObjectSymbol(symbol: UCObjectSymbol) {
+		symbol.super = undefined;
+		return super.visitObjectSymbol(symbol);
+	}
+
+	visitExpression(expr: IExpression) {
+		if (expr instanceof UCMemberExpression) {
+			expr.symbolRef.clearReference();
+		} else if (expr instanceof UCObjectLiteral) {
+			expr.castRef.clearReference();
+		} else if (expr instanceof UCStructLiteral) {
+			expr.structType.clearReference();
+		} else if (expr instanceof UCSuperExpression) {
+			expr.structRef && expr.structRef.clearReference();
+		} else if (expr instanceof UCBinaryOperatorExpression || expr instanceof UCPreOperatorExpression || expr instanceof UCPostOperatorExpression) {
+			expr.operator && expr.operator.clearReference();
+		}
+		return super.visitExpression(expr);
+	}
+
+	private unlinkSuper(symbol: UCStructSymbol) {
+		removeSubtype(symbol);
+		symbol.super = undefined;
+	}
+}
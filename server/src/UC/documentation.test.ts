@@ -0,0 +1,46 @@
+import { expect } from 'chai';
+
+import { parseDocComment, docCommentToMarkdown } from './documentation';
+
+describe('Documentation comments', () => {
+	it('parses a block comment with tags', () => {
+		const doc = parseDocComment([
+			'/**',
+			' * Called when an actor touches this actor.',
+			' *',
+			' * @param Other the actor that touched us,',
+			' *        never none.',
+			' * @return whether the touch was handled.',
+			' * @see UnTouch',
+			' */'
+		].join('\n'))!;
+
+		expect(doc.description).to.equal('Called when an actor touches this actor.');
+		expect(doc.params.get('other')).to.equal('the actor that touched us, never none.');
+		expect(doc.returns).to.equal('whether the touch was handled.');
+		expect(doc.see).to.deep.equal(['UnTouch']);
+	});
+
+	it('parses line comments and skips separators', () => {
+		const doc = parseDocComment([
+			'//=============================================================================',
+			'// Pawn, the base class of all actors that can be controlled.',
+			'// @deprecated use Character instead.',
+			'// @note not replicated.',
+			'//============================================================================='
+		].join('\n'))!;
+
+		expect(doc.description).to.equal('Pawn, the base class of all actors that can be controlled.');
+		expect(doc.deprecated).to.equal('use Character instead.');
+		expect(doc.notes).to.deep.equal(['not replicated.']);
+	});
+
+	it('an empty comment has no documentation', () => {
+		expect(parseDocComment('/** */')).to.be.undefined;
+	});
+
+	it('renders the parameters in their declared order', () => {
+		const doc = parseDocComment('// @param B second\n// @param A first')!;
+		expect(docCommentToMarkdown(doc, ['A', 'B'])).to.equal('*@param* `A` — first\n\n*@param* `B` — second');
+	});
+});
@@ -0,0 +1,137 @@
+/**
+ * The parsed content of the comments that document a symbol.
+ */
+export interface IDocComment {
+	description: string;
+	// Keyed by the lowercased parameter name.
+	params: Map<string, string>;
+	returns?: string;
+	see: string[];
+	notes: string[];
+	deprecated?: string;
+}
+
+// A decorative line e.g. "//=============================================================================".
+const SEPARATOR_REGEXP = /^[=\-*/\s]+$/;
+const TAG_REGEXP = /^@(\w+)\s*(.*)$/;
+
+/**
+ * Strips the comment markers of a line that is part of either a block or a line comment.
+ */
+function stripCommentLine(line: string): string {
+	return line
+		.replace(/^\s*\/\*+/, '')
+		.replace(/\*+\/\s*$/, '')
+		.replace(/^\s*(\/\/+|\*+)/, '')
+		.trim();
+}
+
+/**
+ * Parses the text of one or more block or line comments, returns undefined if the comments have no content.
+ */
+export function parseDocComment(text: string): IDocComment | undefined {
+	const doc: IDocComment = {
+		description: '',
+		params: new Map<string, string>(),
+		see: [],
+		notes: []
+	};
+
+	const descriptionLines: string[] = [];
+	// The tag that a continued line belongs to.
+	let tag: { name: string, lines: string[] } | undefined;
+	const tags: { name: string, lines: string[] }[] = [];
+	for (const rawLine of text.split(/\r?\n/)) {
+		const line = stripCommentLine(rawLine);
+		if (line && SEPARATOR_REGEXP.test(line)) {
+			continue;
+		}
+
+		const match = line.match(TAG_REGEXP);
+		if (match) {
+			tag = { name: match[1].toLowerCase(), lines: [match[2]] };
+			tags.push(tag);
+		} else if (tag && line) {
+			tag.lines.push(line);
+		} else {
+			// An empty line ends the tag.
+			tag = undefined;
+			descriptionLines.push(line);
+		}
+	}
+
+	doc.description = descriptionLines.join('\n').trim();
+	for (const { name, lines } of tags) {
+		const value = lines.join(' ').trim();
+		switch (name) {
+			case 'param': {
+				const paramMatch = value.match(/^(\w+)\s*(.*)$/);
+				if (paramMatch) {
+					doc.params.set(paramMatch[1].toLowerCase(), paramMatch[2]);
+				}
+				break;
+			}
+
+			case 'return': case 'returns':
+				doc.returns = value;
+				break;
+
+			case 'see':
+				doc.see.push(value);
+				break;
+
+			case 'note':
+				doc.notes.push(value);
+				break;
+
+			case 'deprecated':
+				doc.deprecated = value;
+				break;
+
+			default:
+				// Not a tag that we know of, keep it as is.
+				doc.description += (doc.description ? '\n\n' : '') + `@${name} ${value}`;
+				break;
+		}
+	}
+
+	if (!doc.description && !doc.params.size && typeof doc.returns === 'undefined'
+		&& !doc.see.length && !doc.notes.length && typeof doc.deprecated === 'undefined') {
+		return undefined;
+	}
+	return doc;
+}
+
+/**
+ * Renders a parsed comment as Markdown, the parameters are listed in the order of @paramNames if given.
+ */
+export function docCommentToMarkdown(doc: IDocComment, paramNames?: string[]): string {
+	const blocks: string[] = [];
+	if (typeof doc.deprecated !== 'undefined') {
+		blocks.push(`**Deprecated** ${doc.deprecated}`.trim());
+	}
+
+	if (doc.description) {
+		blocks.push(doc.description);
+	}
+
+	const names = paramNames
+		? paramNames.filter(name => doc.params.has(name.toLowerCase()))
+		: Array.from(doc.params.keys());
+	for (const name of names) {
+		blocks.push(`*@param* \`${name}\` — ${doc.params.get(name.toLowerCase())}`);
+	}
+
+	if (typeof doc.returns !== 'undefined') {
+		blocks.push(`*@return* — ${doc.returns}`);
+	}
+
+	for (const see of doc.see) {
+		blocks.push(`*@see* \`${see}\``);
+	}
+
+	for (const note of doc.notes) {
+		blocks.push(`*@note* — ${note}`);
+	}
+	return blocks.join('\n\n');
+}
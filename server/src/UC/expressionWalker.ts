@@ -0,0 +1,78 @@
+import { DefaultSymbolWalker } from './symbolWalker';
+import { UCBlock, IStatement, UCExpressionStatement, UCThenStatement, UCIfStatement, UCDoUntilStatement, UCForStatement } from './statements';
+import {
+	IExpression,
+	UCPropertyAccessExpression, UCCallExpression, UCElementAccessExpression,
+	UCMetaClassExpression, UCParenthesizedExpression, UCConditionalExpression,
+	UCBinaryOperatorExpression, UCPreOperatorExpression, UCPostOperatorExpression,
+	UCObjectLiteral, UCDefaultStructLiteral,
+	UCArrayCountLiteral, UCNameOfLiteral, UCSizeOfLiteral
+} from './expressions';
+
+/**
+ * A walker that also descends into the statements and expressions of a block.
+ */
+export class DefaultExpressionWalker extends DefaultSymbolWalker {
+	visitBlock(symbol: UCBlock) {
+		for (const statement of symbol.statements) if (statement) {
+			statement.accept<any>(this);
+		}
+		return symbol;
+	}
+
+	visitStatement(stm: IStatement) {
+		if (stm instanceof UCExpressionStatement) {
+			stm.expression && stm.expression.accept<any>(this);
+			if (stm instanceof UCThenStatement) {
+				stm.then && stm.then.accept<any>(this);
+				if (stm instanceof UCIfStatement) {
+					stm.else && stm.else.accept<any>(this);
+				} else if (stm instanceof UCDoUntilStatement) {
+					stm.until && stm.until.accept<any>(this);
+				} else if (stm instanceof UCForStatement) {
+					stm.init && stm.init.accept<any>(this);
+					stm.next && stm.next.accept<any>(this);
+				}
+			}
+		}
+		return stm;
+	}
+
+	visitExpression(expr: IExpression) {
+		if (expr instanceof UCPropertyAccessExpression) {
+			expr.left && expr.left.accept<any>(this);
+			expr.member && expr.member.accept<any>(this);
+		} else if (expr instanceof UCCallExpression) {
+			expr.expression && expr.expression.accept<any>(this);
+			if (expr.arguments) for (const arg of expr.arguments) {
+				arg && arg.accept<any>(this);
+			}
+		} else if (expr instanceof UCElementAccessExpression) {
+			expr.expression && expr.expression.accept<any>(this);
+			expr.argument && expr.argument.accept<any>(this);
+		} else if (expr instanceof UCMetaClassExpression) {
+			expr.classRef && expr.classRef.accept<any>(this);
+			expr.expression && expr.expression.accept<any>(this);
+		} else if (expr instanceof UCParenthesizedExpression) {
+			expr.expression && expr.expression.accept<any>(this);
+		} else if (expr instanceof UCConditionalExpression) {
+			expr.condition && expr.condition.accept<any>(this);
+			expr.true && expr.true.accept<any>(this);
+			expr.false && expr.false.accept<any>(this);
+		} else if (expr instanceof UCBinaryOperatorExpression) {
+			expr.left && expr.left.accept<any>(this);
+			expr.right && expr.right.accept<any>(this);
+		} else if (expr instanceof UCPreOperatorExpression || expr instanceof UCPostOperatorExpression) {
+			expr.expression && expr.expression.accept<any>(this);
+		} else if (expr instanceof UCObjectLiteral) {
+			expr.objectRef && expr.objectRef.accept<any>(this);
+		} else if (expr instanceof UCArrayCountLiteral || expr instanceof UCNameOfLiteral || expr instanceof UCSizeOfLiteral) {
+			expr.argumentRef && expr.argumentRef.accept<any>(this);
+		} else if (expr instanceof UCDefaultStructLiteral) {
+			if (expr.arguments) for (const arg of expr.arguments) {
+				arg && arg.accept<any>(this);
+			}
+		}
+		return expr;
+	}
+}
@@ -588,7 +588,7 @@ export class UCDefaultAssignmentExpression extends UCBinaryOperatorExpression {
 }
 
 export class UCMemberExpression extends UCExpression {
-	constructor(protected symbolRef: UCSymbolReference) {
+	constructor(public symbolRef: UCSymbolReference) {
 		super(symbolRef.getRange());
 	}
 
@@ -618,7 +618,7 @@ export class UCMemberExpression extends UCExpression {
 			let type: ISymbol | undefined;
 			if (type = TypeCastMap.get(id)) {
 				this.symbolRef.setReference(type, document, true);
-			} else if (type = ClassesTable.findSymbol(id, true) || ObjectsTable.findSymbol(id)) {
+			} else if (type = ClassesTable.findSymbol(id, true, document.filePath) || ObjectsTable.findSymbol(id)) {
 				this.symbolRef.setReference(type, document);
 				return;
 			}
@@ -710,10 +710,13 @@ export class UCSuperExpression extends UCExpression {
 			// FIXME: UE2 doesn't verify inheritance, thus particular exploits are possible by calling a super function through an unrelated class,
 			// -- this let's programmers write data in different parts of the memory.
 			// -- Thus should we just be naive and match any type instead?
-			const symbol = findSuperStruct(context, this.structRef.getId()) || ClassesTable.findSymbol(this.structRef.getId(), true);
+			const symbol = findSuperStruct(context, this.structRef.getId()) || ClassesTable.findSymbol(this.structRef.getId(), true, document.filePath);
 			if (symbol instanceof UCStructSymbol) {
 				this.structRef.setReference(symbol, document);
 				this.superStruct = symbol;
+			} else {
+				// May have been resolved by a previous index.
+				this.superStruct = undefined;
 			}
 		} else {
 			this.superStruct = context.super;
@@ -759,12 +762,18 @@ export class UCNoneLiteral extends UCLiteral {
 }
 
 export class UCStringLiteral extends UCLiteral {
+	// The text of the string, without the quotes.
+	value: string;
+
 	getTypeKind(): UCTypeKind {
 		return UCTypeKind.String;
 	}
 }
 
 export class UCNameLiteral extends UCLiteral {
+	// The text of the name, without the quotes.
+	value: string;
+
 	getTypeKind(): UCTypeKind {
 		return UCTypeKind.Name;
 	}
@@ -837,7 +846,7 @@ export class UCObjectLiteral extends UCExpression {
 	}
 
 	index(document: UCDocument, context: UCStructSymbol) {
-		const castSymbol = ClassesTable.findSymbol(this.castRef.getId(), true);
+		const castSymbol = ClassesTable.findSymbol(this.castRef.getId(), true, document.filePath);
 		if (castSymbol) {
 			this.castRef.setReference(castSymbol, document);
 		}
@@ -0,0 +1,21 @@
+import { expect } from 'chai';
+
+import { fuzzyScore } from './fuzzy';
+
+describe('Fuzzy matching', () => {
+	it('pc matches PlayerController', () => {
+		expect(fuzzyScore('pc', 'PlayerController')).to.not.be.undefined;
+	});
+
+	it('cp does not match PlayerController', () => {
+		expect(fuzzyScore('cp', 'PlayerController')).to.be.undefined;
+	});
+
+	it('Word starts score higher', () => {
+		expect(fuzzyScore('pc', 'PlayerController')).to.be.greaterThan(fuzzyScore('pc', 'Spectator')!);
+	});
+
+	it('Exact matches score higher than prefixes', () => {
+		expect(fuzzyScore('pawn', 'Pawn')).to.be.greaterThan(fuzzyScore('pawn', 'PawnMovement')!);
+	});
+});
@@ -0,0 +1,45 @@
+function isWordStart(text: string, index: number): boolean {
+	if (index === 0) {
+		return true;
+	}
+
+	const char = text[index];
+	const prevChar = text[index - 1];
+	return prevChar === '_'
+		|| (char !== char.toLowerCase() && prevChar === prevChar.toLowerCase());
+}
+
+/**
+ * Scores how well the query matches the text, where each character of the query has to appear in order.
+ * Consecutive characters and characters at the start of a word i.e. "PC" for "PlayerController" score higher.
+ *
+ * @returns the score, or undefined if the query does not match.
+ */
+export function fuzzyScore(query: string, text: string): number | undefined {
+	const lowerQuery = query.toLowerCase();
+	const lowerText = text.toLowerCase();
+
+	let score = 0;
+	let lastIndex = -1;
+	for (let i = 0; i < lowerQuery.length; ++ i) {
+		const index = lowerText.indexOf(lowerQuery[i], lastIndex + 1);
+		if (index === -1) {
+			return undefined;
+		}
+
+		score += 1;
+		if (index === lastIndex + 1) {
+			score += 2;
+		}
+
+		if (isWordStart(text, index)) {
+			score += 3;
+		}
+		lastIndex = index;
+	}
+
+	if (lowerQuery.length === lowerText.length) {
+		score += 10;
+	}
+	return score;
+}
@@ -3,17 +3,72 @@ import {
 	Hover,
 	Location,
 	SymbolInformation,
+	SymbolKind,
 	Position,
 	Range,
 	DocumentHighlight,
-	DocumentHighlightKind
+	DocumentHighlightKind,
+	SemanticTokens,
+	SemanticTokensDelta,
+	SemanticTokensBuilder,
+	SignatureHelp,
+	SignatureInformation,
+	ParameterInformation,
+	FormattingOptions,
+	TextEdit,
+	FoldingRange,
+	TypeHierarchyItem,
+	CallHierarchyItem,
+	CallHierarchyIncomingCall,
+	CallHierarchyOutgoingCall,
+	InlayHint,
+	CodeLens,
+	Command,
+	DocumentLink,
+	DocumentSymbol,
+	WorkspaceEdit,
+	TextDocumentEdit,
+	OptionalVersionedTextDocumentIdentifier,
+	RenameFile,
+	MarkupKind,
+	CompletionItemKind,
+	InsertTextFormat
 } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
 import { Token, ParserRuleContext } from 'antlr4ts';
 
+import { UCLexer } from '../antlr/UCLexer';
+import { CaseInsensitiveStream } from './Parser/CaseInsensitiveStream';
 import { TokenExt } from './Parser/CommonTokenStreamExt';
-import { IWithReference, ISymbol, UCSymbol, UCStructSymbol, ClassesTable } from './Symbols';
-import { getDocumentByUri, getIndexedReferences } from "./indexer";
+import * as path from 'path';
+import { URI } from 'vscode-uri';
+
+import {
+	IWithReference, ISymbol, UCSymbol, UCSymbolReference, UCStructSymbol, ClassesTable, ObjectsTable,
+	UCMethodSymbol, UCPropertySymbol, UCDelegateSymbol, UCBaseOperatorSymbol,
+	UCClassSymbol, UCScriptStructSymbol, UCEnumSymbol, UCStateSymbol, UCConstSymbol,
+	UCParamSymbol, UCLocalSymbol, UCDocumentClassSymbol, UCDefaultPropertiesBlock, UCObjectSymbol,
+	VectMethodLike, RotMethodLike, RngMethodLike
+} from './Symbols';
+import {
+	getDocumentByUri, getDocumentById, getIndexedReferences, indexDocument,
+	config, defaultSettings, filePathByClassIdMap$, documentByURIMap, getSubtypes, getPackageNameByUri,
+	postIndexPendingDocuments, lastIndexedDocuments$, staleDocuments$, getDependentDocuments
+} from "./indexer";
+import { UCLabeledStatement } from './statements';
+import { UCCallExpression, UCVectLiteral, UCRotLiteral } from './expressions';
+import { Name, toName } from './names';
+import { fuzzyScore } from './fuzzy';
 import { UCDocument } from './document';
+import { DocumentSemanticsBuilder } from './documentSemanticsBuilder';
+import { DocumentFormatter, getEditsWithinLines } from './documentFormatter';
+import { DocumentFoldingRangesBuilder } from './documentFoldingRangesBuilder';
+import { DocumentLinksBuilder } from './documentLinksBuilder';
+import { getDefaultPropertiesCompletionItems } from './defaultPropertiesCompletion';
+import { getVisibleMacroCompletionItems } from './macroCompletion';
+import { getModifierCompletionItems } from './modifierCompletion';
+import { CallsCollector, EnclosingCallFinder, CallKind, ICallSite, resolveCallee } from './callsCollector';
+import { DocumentInlayHintsBuilder } from './documentInlayHintsBuilder';
 import { performance } from 'perf_hooks';
 
 export function rangeFromBound(token: Token): Range {
@@ -111,19 +166,65 @@ function getDocumentCompletionContext(document: UCDocument, position: Position):
 	return undefined;
 }
 
+/**
+ * Describes where @symbol has been declared, and the functions or states that it overrides.
+ */
+function getSymbolOrigin(symbol: UCSymbol): string[] {
+	const lines: string[] = [];
+
+	let classSymbol = symbol.outer;
+	while (classSymbol && !(classSymbol instanceof UCClassSymbol)) {
+		classSymbol = classSymbol.outer;
+	}
+
+	if (classSymbol) {
+		const pkg = classSymbol.outer;
+		lines.push(`*Declared in* \`${classSymbol.getId()}\`` + (pkg ? ` *of package* \`${pkg.getId()}\`` : ''));
+	} else if (symbol instanceof UCClassSymbol && symbol.outer) {
+		lines.push(`*Package* \`${symbol.outer.getId()}\``);
+	}
+
+	const overrides: string[] = [];
+	if (symbol instanceof UCMethodSymbol) {
+		for (let method = symbol.overriddenMethod; method; method = method.overriddenMethod) {
+			overrides.push(method.getQualifiedName());
+		}
+	} else if (symbol instanceof UCStateSymbol) {
+		for (let state = symbol.overriddenState; state; state = state.overriddenState) {
+			overrides.push(state.getQualifiedName());
+		}
+	}
+
+	if (overrides.length) {
+		lines.push('*Overrides* ' + overrides.map(name => `\`${name}\``).join(' → '));
+	}
+	return lines;
+}
+
 export async function getSymbolTooltip(uri: string, position: Position): Promise<Hover | undefined> {
 	const document = getDocumentByUri(uri);
 	const ref = document && getDocumentSymbol(document, position);
 	if (ref && ref instanceof UCSymbol) {
-		const contents = [{ language: 'unrealscript', value: ref.getTooltip()}];
+		const symbol = ref instanceof UCSymbolReference && ref.getReference() instanceof UCSymbol
+			? ref.getReference() as UCSymbol
+			: ref;
+		const blocks = ['```unrealscript\n' + ref.getTooltip() + '\n```'];
 
-		const documentation = ref.getDocumentation();
+		const origin = getSymbolOrigin(symbol);
+		if (origin.length) {
+			blocks.push(origin.join('  \n'));
+		}
+
+		const documentation = symbol.getDocumentation();
 		if (documentation) {
-			contents.push({ language: 'unrealscript', value: documentation });
+			blocks.push('---', documentation);
 		}
 
 		return {
-			contents,
+			contents: {
+				kind: MarkupKind.Markdown,
+				value: blocks.join('\n\n')
+			},
 			range: ref.id.range
 		};
 	}
@@ -148,28 +249,348 @@ export async function getSymbol(uri: string, position: Position): Promise<ISymbo
 	return document && getDocumentSymbol(document, position);
 }
 
-export async function getSymbols(uri: string): Promise<SymbolInformation[] | undefined> {
+function containsRange(range: Range, inner: Range): boolean {
+	return !(inner.start.line < range.start.line
+		|| (inner.start.line === range.start.line && inner.start.character < range.start.character)
+		|| inner.end.line > range.end.line
+		|| (inner.end.line === range.end.line && inner.end.character > range.end.character));
+}
+
+function toDocumentSymbol(symbol: UCSymbol): DocumentSymbol {
+	const range = symbol.getRange();
+	// The client rejects a selection range that is not contained by the symbol's range.
+	const selectionRange = containsRange(range, symbol.id.range) ? symbol.id.range : range;
+	const documentSymbol = DocumentSymbol.create(
+		symbol.getId().toString() || '(none)', symbol.getTooltip(),
+		symbol.getKind(), range, selectionRange
+	);
+
+	if (symbol instanceof UCStructSymbol) {
+		const children: DocumentSymbol[] = [];
+		for (let child = symbol.children; child; child = child.next) {
+			// The parameters are already part of the function's detail.
+			if (child instanceof UCParamSymbol || child instanceof UCLocalSymbol) {
+				continue;
+			}
+			children.push(toDocumentSymbol(child));
+		}
+
+		// e.g. the "Begin:" label of a state.
+		if (symbol instanceof UCStateSymbol && symbol.block) {
+			for (const statement of symbol.block.statements) {
+				if (statement instanceof UCLabeledStatement && statement.label) {
+					const labelRange = statement.getRange();
+					children.push(DocumentSymbol.create(statement.label.toString(), undefined, SymbolKind.Key, labelRange, labelRange));
+				}
+			}
+		}
+
+		// Ordered by their appearance, as the children are linked in reverse order.
+		documentSymbol.children = children.sort((a, b) => a.range.start.line - b.range.start.line
+			|| a.range.start.character - b.range.start.character);
+	}
+	return documentSymbol;
+}
+
+export async function getSymbols(uri: string): Promise<DocumentSymbol[] | undefined> {
 	const document = getDocumentByUri(uri);
 	if (!document) {
 		return undefined;
 	}
+	return document.getSymbols().map(toDocumentSymbol);
+}
+
+export async function getSemanticTokens(uri: string, builder: SemanticTokensBuilder): Promise<SemanticTokens> {
+	const document = getDocumentByUri(uri);
+	if (document) {
+		new DocumentSemanticsBuilder(document).build(builder);
+	}
+	return builder.build();
+}
+
+export async function getSemanticTokensDelta(uri: string, builder: SemanticTokensBuilder, previousResultId: string): Promise<SemanticTokens | SemanticTokensDelta> {
+	builder.previousResult(previousResultId);
+	const document = getDocumentByUri(uri);
+	if (document) {
+		new DocumentSemanticsBuilder(document).build(builder);
+	}
+	return builder.buildEdits();
+}
+
+function buildSignatureInformation(method: UCMethodSymbol): SignatureInformation {
+	const returnType = method.returnType && method.returnType.getTypeText();
+	let label = (returnType ? returnType + ' ' : '') + method.getId().toString() + '(';
+
+	const doc = method.getDocComment();
+	const parameters: ParameterInformation[] = [];
+	if (method.params) for (let i = 0; i < method.params.length; ++i) {
+		if (i > 0) {
+			label += ', ';
+		}
+
+		const param = method.params[i];
+		const paramText = param.getTextForSignature();
+		const paramDoc = doc && doc.params.get(param.getId().toString().toLowerCase());
+		parameters.push(ParameterInformation.create([label.length, label.length + paramText.length], paramDoc));
+		label += paramText;
+	}
+	label += ')';
+
+	const signature = SignatureInformation.create(label, undefined, ...parameters);
+	const documentation = method.getDocumentation();
+	if (documentation) {
+		signature.documentation = { kind: MarkupKind.Markdown, value: documentation };
+	}
+	return signature;
+}
+
+/**
+ * Returns the index of the argument at @position, by counting the commas that follow the opening parenthesis of a call.
+ * Only the text after @start is lexed, so that the commas of comments, strings, names, and nested calls are skipped.
+ * Returns -1 if @position is not within the parentheses of the call.
+ */
+function getArgumentIndex(textDocument: TextDocument, start: Position, position: Position): number {
+	const text = textDocument.getText(Range.create(start, position));
+	const lexer = new UCLexer(new CaseInsensitiveStream(text));
+	lexer.removeErrorListeners();
 
-	const contextSymbols: SymbolInformation[] = document.getSymbols().map(s => s.toSymbolInfo());
-	const buildSymbolsList = (container: UCStructSymbol) => {
-		for (let child = container.children; child; child = child.next) {
-			contextSymbols.push(child.toSymbolInfo());
-			if (child instanceof UCStructSymbol) {
-				buildSymbolsList(child as UCStructSymbol);
+	let parenthesisLevel = 0;
+	let argumentIndex = 0;
+	for (let token = lexer.nextToken(); token.type !== Token.EOF; token = lexer.nextToken()) {
+		if (token.type === UCLexer.OPEN_PARENS) {
+			++ parenthesisLevel;
+		} else if (token.type === UCLexer.CLOSE_PARENS) {
+			if (-- parenthesisLevel === 0) {
+				return -1;
 			}
+		} else if (token.type === UCLexer.COMMA && parenthesisLevel === 1) {
+			++ argumentIndex;
 		}
+	}
+	return parenthesisLevel > 0 ? argumentIndex : -1;
+}
+
+export async function getSignatureHelp(textDocument: TextDocument, position: Position): Promise<SignatureHelp | undefined> {
+	const document = getDocumentByUri(textDocument.uri);
+	const caller = document && document.class && findEnclosingCaller(document.class, position);
+	if (!caller || !caller.block) {
+		return undefined;
+	}
+
+	const finder = new EnclosingCallFinder(position);
+	caller.block.accept<any>(finder);
+
+	const call = finder.call;
+	if (!call) {
+		return undefined;
+	}
+
+	let method: UCMethodSymbol;
+	let argumentsStart: Position;
+	if (call instanceof UCCallExpression) {
+		const callInfo = call.expression && resolveCallee(call.expression);
+		if (!callInfo) {
+			return undefined;
+		}
+		method = callInfo.method;
+		// The callee itself may contain parentheses e.g. "Foo(A).Bar(B)"
+		argumentsStart = call.expression!.getRange().end;
+	} else {
+		method = call instanceof UCVectLiteral
+			? VectMethodLike
+			: call instanceof UCRotLiteral ? RotMethodLike : RngMethodLike;
+		argumentsStart = call.getRange().start;
+	}
+
+	const argumentIndex = getArgumentIndex(textDocument, argumentsStart, position);
+	if (argumentIndex === -1) {
+		return undefined;
+	}
+
+	return {
+		signatures: [buildSignatureInformation(method)],
+		activeSignature: 0,
+		activeParameter: argumentIndex
 	};
+}
 
-	for (const symbol of contextSymbols) {
-		if (symbol instanceof UCStructSymbol) {
-			buildSymbolsList(symbol);
+// Limits the results of a workspace symbol query, a short query would otherwise match thousands of symbols.
+const MAX_WORKSPACE_SYMBOLS = 200;
+
+// The amount of classes that may be indexed to match the members of a qualified query like "PlayerController.ClientMessage".
+const MAX_QUALIFIED_CLASSES = 5;
+
+interface IWorkspaceSymbolMatch {
+	info: SymbolInformation;
+	score: number;
+	rank: number;
+	packageName: string;
+}
+
+/**
+ * Returns the order in which a symbol is listed, or -1 if the symbol shouldn't be listed at all e.g. a local.
+ */
+function getWorkspaceSymbolRank(symbol: ISymbol): number {
+	if (symbol instanceof UCClassSymbol) {
+		return 0;
+	}
+
+	if (symbol instanceof UCScriptStructSymbol || symbol instanceof UCEnumSymbol) {
+		return 1;
+	}
+
+	if (symbol instanceof UCStateSymbol) {
+		return 2;
+	}
+
+	if (symbol instanceof UCMethodSymbol) {
+		return 3;
+	}
+
+	if (symbol instanceof UCConstSymbol) {
+		return 4;
+	}
+
+	if (symbol instanceof UCPropertySymbol && !(symbol instanceof UCParamSymbol || symbol instanceof UCLocalSymbol)) {
+		return 5;
+	}
+	return -1;
+}
+
+function matchWorkspaceSymbols(document: UCDocument, container: UCStructSymbol, query: string, matches: IWorkspaceSymbolMatch[]) {
+	for (let child = container.children; child; child = child.next) {
+		const rank = getWorkspaceSymbolRank(child);
+		if (rank !== -1) {
+			const score = fuzzyScore(query, child.getId().toString());
+			if (typeof score !== 'undefined') {
+				matches.push({ info: child.toSymbolInfo(), score, rank, packageName: document.classPackage.getId().toString() });
+			}
+		}
+
+		// Skip methods, we are not interested in params and locals.
+		if (child instanceof UCStructSymbol && !(child instanceof UCMethodSymbol)) {
+			matchWorkspaceSymbols(document, child, query, matches);
 		}
 	}
-	return contextSymbols;
+}
+
+/**
+ * Matches the query against all the classes in the workspace, and the members of any indexed class.
+ * A qualified query i.e. "Class.Member" matches the members of the best matching classes, these classes are indexed if necessary.
+ */
+export async function getWorkspaceSymbols(query: string): Promise<SymbolInformation[]> {
+	const matches: IWorkspaceSymbolMatch[] = [];
+	const classIdsMap = filePathByClassIdMap$.getValue();
+
+	const dotIndex = query.indexOf('.');
+	if (dotIndex !== -1) {
+		const classQuery = query.substr(0, dotIndex);
+		const memberQuery = query.substr(dotIndex + 1);
+
+		const classMatches: { id: string, score: number }[] = [];
+		for (const [id, filePath] of classIdsMap) {
+			const score = fuzzyScore(classQuery, path.basename(filePath, '.uc'));
+			if (typeof score !== 'undefined') {
+				classMatches.push({ id, score });
+			}
+		}
+
+		classMatches.sort((a, b) => b.score - a.score);
+		for (const { id } of classMatches.slice(0, MAX_QUALIFIED_CLASSES)) {
+			const document = getDocumentById(id);
+			if (!document) {
+				continue;
+			}
+
+			if (!document.hasBeenIndexed) {
+				indexDocument(document);
+			}
+
+			if (document.class) {
+				matchWorkspaceSymbols(document, document.class, memberQuery, matches);
+			}
+		}
+
+		// The qualifier may also be a struct e.g. "Vector.X"
+		const struct = ObjectsTable.getSymbol(toName(classQuery));
+		if (struct instanceof UCStructSymbol) {
+			const uri = struct.getUri();
+			const document = uri && documentByURIMap.get(uri);
+			if (document) {
+				matchWorkspaceSymbols(document, struct, memberQuery, matches);
+			}
+		}
+	} else {
+		for (const filePath of classIdsMap.values()) {
+			// The classes map also holds the include files e.g. "globals.uci".
+			if (path.extname(filePath).toLowerCase() !== '.uc') {
+				continue;
+			}
+
+			const score = fuzzyScore(query, path.basename(filePath, '.uc'));
+			if (typeof score === 'undefined') {
+				continue;
+			}
+
+			// Not indexed yet, we don't know where the class is declared but the file should do.
+			// The document is not created here, a short query would otherwise create a document for most of the classes.
+			const uri = URI.file(filePath).toString();
+			const document = documentByURIMap.get(uri);
+			const info = document && document.class
+				? document.class.toSymbolInfo()
+				: SymbolInformation.create(path.basename(filePath, '.uc'), SymbolKind.Class, Range.create(0, 0, 0, 0), uri);
+			matches.push({ info, score, rank: 0, packageName: getPackageNameByUri(uri) });
+		}
+
+		for (const document of documentByURIMap.values()) {
+			if (document.class) {
+				matchWorkspaceSymbols(document, document.class, query, matches);
+			}
+		}
+	}
+
+	return matches
+		.sort((a, b) => (b.score - a.score)
+			|| (a.rank - b.rank)
+			|| a.packageName.localeCompare(b.packageName)
+			|| a.info.name.localeCompare(b.info.name))
+		.slice(0, MAX_WORKSPACE_SYMBOLS)
+		.map(match => match.info);
+}
+
+export async function getFoldingRanges(uri: string, text: string): Promise<FoldingRange[] | undefined> {
+	const document = getDocumentByUri(uri);
+	if (!document) {
+		return undefined;
+	}
+	return new DocumentFoldingRangesBuilder(document).build(text);
+}
+
+export async function getDocumentLinks(uri: string): Promise<DocumentLink[] | undefined> {
+	const document = getDocumentByUri(uri);
+	if (!document) {
+		return undefined;
+	}
+	return new DocumentLinksBuilder(document).build();
+}
+
+export async function getInlayHints(textDocument: TextDocument, range: Range): Promise<InlayHint[] | undefined> {
+	const document = getDocumentByUri(textDocument.uri);
+	if (!document) {
+		return undefined;
+	}
+
+	const options = Object.assign({}, defaultSettings.unrealscript.inlayHints, config.inlayHints);
+	return new DocumentInlayHintsBuilder(document, textDocument, options).build(range);
+}
+
+/**
+ * Formats the text, if a range is given then only the edits that end within the range's lines are returned.
+ */
+export async function getFormattingEdits(text: string, options: FormattingOptions, range?: Range): Promise<TextEdit[]> {
+	const formatOptions = Object.assign({}, defaultSettings.unrealscript.format, config.format);
+	const edits = new DocumentFormatter(text, formatOptions, options).format();
+	return range ? getEditsWithinLines(edits, range) : edits;
 }
 
 export async function getSymbolReferences(uri: string, position: Position): Promise<Location[] | undefined> {
@@ -178,19 +599,543 @@ export async function getSymbolReferences(uri: string, position: Position): Prom
 		return undefined;
 	}
 
-	const references = getIndexedReferences(symbol.getHash());
+	await indexDeclarationsOnlyDocuments();
+
+	const references = getIndexedReferences(symbol);
 	return references && Array
 		.from(references.values())
 		.map(ref => ref.location);
 }
 
+/**
+ * Renames a class, its file, and all of its references.
+ * The index is left as is, because the client may still reject the edit, the class is moved once the client has renamed its file.
+ */
+export async function renameClass(symbol: UCDocumentClassSymbol, newName: string): Promise<WorkspaceEdit | undefined> {
+	const document = symbol.document;
+	if (!document) {
+		return undefined;
+	}
+
+	// Any document could be referencing the class.
+	await indexWorkspaceDocuments();
+
+	const editsByUri = new Map<string, Map<string, TextEdit>>();
+	const references = getIndexedReferences(symbol);
+	if (references) for (const ref of references) {
+		const { uri, range } = ref.location;
+		let edits = editsByUri.get(uri);
+		if (!edits) {
+			editsByUri.set(uri, edits = new Map<string, TextEdit>());
+		}
+		// A reference may have been indexed more than once, but the client rejects overlapping edits.
+		edits.set(JSON.stringify(range), TextEdit.replace(range, newName));
+	}
+
+	const oldUri = document.filePath;
+	const newUri = URI.file(path.join(path.dirname(URI.parse(oldUri).fsPath), newName + '.uc')).toString();
+	const documentChanges: (TextDocumentEdit | RenameFile)[] = Array
+		.from(editsByUri.entries())
+		.map(([uri, edits]) => TextDocumentEdit.create(
+			OptionalVersionedTextDocumentIdentifier.create(uri, null),
+			Array.from(edits.values())
+		));
+	// The edits have to be applied before the file is moved.
+	documentChanges.push(RenameFile.create(oldUri, newUri));
+
+	return { documentChanges };
+}
+
+// The time in milliseconds that may be spent on indexing the workspace, before yielding to the other requests.
+const WORKSPACE_INDEX_SLICE_TIME = 50;
+
+// The runs of @indexDocumentsInSlices, a run starts once the previous run has completed.
+let workspaceIndexQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Queues a run that indexes the documents that are returned by @getDocuments, which is called once the run starts,
+ * so that the documents that have been indexed by a previous run are skipped.
+ */
+function queueWorkspaceIndex(getDocuments: () => UCDocument[]): Promise<void> {
+	const run = workspaceIndexQueue.then(() => indexDocumentsInSlices(getDocuments()));
+	// A failed run should not fail the runs that follow.
+	workspaceIndexQueue = run.catch(() => undefined);
+	return run;
+}
+
+/**
+ * Indexes all the documents in the workspace that haven't been fully indexed yet, a subtype is unknown to us until it has been indexed.
+ */
+function indexWorkspaceDocuments(): Promise<void> {
+	return queueWorkspaceIndex(() => {
+		const documents: UCDocument[] = [];
+		for (const id of filePathByClassIdMap$.getValue().keys()) {
+			const document = getDocumentById(id);
+			if (document && (!document.hasBeenIndexed || document.hasDeclarationsOnly)) {
+				documents.push(document);
+			}
+		}
+		return documents;
+	});
+}
+
+/**
+ * Indexes the @documents that haven't been indexed yet on the main thread, in slices so that the server remains responsive
+ * e.g. when the documents could not be built in workers.
+ */
+export function indexPendingDocuments(documents: UCDocument[]): Promise<void> {
+	return queueWorkspaceIndex(() => documents.filter(document => !document.hasBeenIndexed));
+}
+
+/**
+ * Fully indexes the documents of which only the declarations have been indexed,
+ * the references that are made by their code are unknown to us until then.
+ */
+export function indexDeclarationsOnlyDocuments(): Promise<void> {
+	return queueWorkspaceIndex(() => Array
+		.from(documentByURIMap.values())
+		.filter(document => document.hasDeclarationsOnly));
+}
+
+/**
+ * Indexes the @documents in slices so that the server remains responsive, the documents are emitted as one batch once all have been indexed.
+ */
+async function indexDocumentsInSlices(documents: UCDocument[]): Promise<void> {
+	const declarationsOnlyDocuments = documents.filter(document => document.hasDeclarationsOnly);
+
+	// The declared symbols are about to be replaced, so the other documents that have been linked to these symbols have to be re-linked.
+	const staleDocuments = new Set<UCDocument>();
+	for (const document of declarationsOnlyDocuments) {
+		for (const dependentDocument of getDependentDocuments(document)) {
+			if (!dependentDocument.hasDeclarationsOnly) {
+				staleDocuments.add(dependentDocument);
+			}
+		}
+	}
+
+	// All of the declarations have to be removed first, so that no document is linked to a declaration that has yet to be replaced.
+	for (const document of declarationsOnlyDocuments) {
+		document.invalidate();
+	}
+
+	const indexedDocuments: UCDocument[] = [];
+	let sliceStartTime = performance.now();
+	for (const document of documents) {
+		// May have been indexed in the meantime, as a dependency of another document, or when opened.
+		if (document.hasBeenIndexed) {
+			continue;
+		}
+
+		indexDocument(document);
+		if (performance.now() - sliceStartTime > WORKSPACE_INDEX_SLICE_TIME) {
+			indexedDocuments.push(...postIndexPendingDocuments());
+			await new Promise(resolve => setImmediate(resolve));
+			sliceStartTime = performance.now();
+		}
+	}
+	indexedDocuments.push(...postIndexPendingDocuments());
+
+	if (indexedDocuments.length) {
+		lastIndexedDocuments$.next(indexedDocuments);
+	}
+
+	if (staleDocuments.size) {
+		staleDocuments$.next(Array.from(staleDocuments));
+	}
+}
+
+function isOverrideOf(symbol: ISymbol, base: UCMethodSymbol | UCStateSymbol): boolean {
+	if (symbol instanceof UCMethodSymbol) {
+		for (let method = symbol.overriddenMethod; method; method = method.overriddenMethod) {
+			if (method === base) {
+				return true;
+			}
+		}
+	} else if (symbol instanceof UCStateSymbol) {
+		for (let state = symbol.overriddenState; state; state = state.overriddenState) {
+			if (state === base) {
+				return true;
+			}
+		}
+	}
+	return false;
+}
+
+/**
+ * Collects the overrides of @base that are declared in the subclasses of @classSymbol, including the overrides of an override.
+ */
+function findOverrides(base: UCMethodSymbol | UCStateSymbol, classSymbol: UCStructSymbol, overrides: UCSymbol[]) {
+	const subclasses = getSubtypes(classSymbol);
+	if (!subclasses) {
+		return;
+	}
+
+	const id = base.getId();
+	for (const subclass of subclasses) {
+		for (let child = subclass.children; child; child = child.next) {
+			if (child.getId() === id && isOverrideOf(child, base)) {
+				overrides.push(child);
+			}
+
+			// A method may also be overridden within a state.
+			if (child instanceof UCStateSymbol) {
+				const stateChild = child.getSymbol(id);
+				if (stateChild && isOverrideOf(stateChild, base)) {
+					overrides.push(stateChild);
+				}
+			}
+		}
+		findOverrides(base, subclass, overrides);
+	}
+}
+
+/**
+ * Returns the locations of the overrides of @symbol that are declared in any indexed subclass.
+ */
+function getOverrideLocations(symbol: UCMethodSymbol | UCStateSymbol): Location[] | undefined {
+	let outer = symbol.outer;
+	while (outer && !(outer instanceof UCClassSymbol)) {
+		outer = outer.outer;
+	}
+
+	if (!(outer instanceof UCClassSymbol)) {
+		return undefined;
+	}
+
+	const overrides: UCSymbol[] = [];
+	findOverrides(symbol, outer, overrides);
+	return overrides.map(override => Location.create(override.getUri(), override.id.range));
+}
+
+export async function getSymbolImplementations(uri: string, position: Position): Promise<Location[] | undefined> {
+	const symbol = await getSymbolDefinition(uri, position);
+	if (!(symbol instanceof UCMethodSymbol || symbol instanceof UCStateSymbol)) {
+		return undefined;
+	}
+
+	await indexWorkspaceDocuments();
+	return getOverrideLocations(symbol);
+}
+
+// Implemented by the client, shows the locations in a peek view.
+const SHOW_REFERENCES_COMMAND = 'unrealscript.showReferences';
+
+enum CodeLensKind {
+	References,
+	Overrides
+}
+
+interface ICodeLensData {
+	uri: string;
+	position: Position;
+	kind: CodeLensKind;
+}
+
+function pushCodeLenses(uri: string, container: UCStructSymbol, lenses: CodeLens[]) {
+	for (let child = container.children; child; child = child.next) {
+		if (!(child instanceof UCPropertySymbol
+			|| child instanceof UCMethodSymbol
+			|| child instanceof UCStateSymbol
+			|| child instanceof UCScriptStructSymbol)) {
+			continue;
+		}
+
+		const range = child.id.range;
+		const position = range.start;
+		const data: ICodeLensData = { uri, position, kind: CodeLensKind.References };
+		lenses.push(CodeLens.create(range, data));
+
+		if (child instanceof UCMethodSymbol) {
+			const overriddenMethod = child.overriddenMethod;
+			const overriddenUri = overriddenMethod && overriddenMethod.getUri();
+			if (overriddenMethod && overriddenUri) {
+				const lens = CodeLens.create(range);
+				lens.command = Command.create(
+					`overrides ${overriddenMethod.getQualifiedName()}`, SHOW_REFERENCES_COMMAND,
+					uri, position, [Location.create(overriddenUri, overriddenMethod.id.range)]
+				);
+				lenses.push(lens);
+			}
+
+			if (!child.isFinal()) {
+				const data: ICodeLensData = { uri, position, kind: CodeLensKind.Overrides };
+				lenses.push(CodeLens.create(range, data));
+			}
+		} else if (child instanceof UCStateSymbol || child instanceof UCScriptStructSymbol) {
+			pushCodeLenses(uri, child, lenses);
+		}
+	}
+}
+
+/**
+ * Returns the lenses of a document, the reference and override counts are left to be resolved by resolveCodeLens().
+ */
+export async function getCodeLenses(uri: string): Promise<CodeLens[] | undefined> {
+	const document = getDocumentByUri(uri);
+	if (!document || !document.class) {
+		return undefined;
+	}
+
+	const lenses: CodeLens[] = [];
+	pushCodeLenses(uri, document.class, lenses);
+	return lenses;
+}
+
+export async function resolveCodeLens(lens: CodeLens): Promise<CodeLens> {
+	const data = lens.data as ICodeLensData;
+	let title: string;
+	let locations: Location[] | undefined;
+	if (data.kind === CodeLensKind.References) {
+		locations = await getSymbolReferences(data.uri, data.position);
+		const count = locations ? locations.length : 0;
+		title = count === 1 ? '1 reference' : `${count} references`;
+	} else {
+		// Unlike getSymbolImplementations(), we don't index the workspace here, the count is limited to the indexed subclasses.
+		const symbol = await getSymbolDefinition(data.uri, data.position);
+		locations = symbol instanceof UCMethodSymbol ? getOverrideLocations(symbol) : undefined;
+		const count = locations ? locations.length : 0;
+		title = count === 1 ? 'overridden in 1 subclass' : `overridden in ${count} subclasses`;
+	}
+
+	lens.command = Command.create(title, SHOW_REFERENCES_COMMAND, data.uri, data.position, locations || []);
+	return lens;
+}
+
+function toTypeHierarchyItem(symbol: UCStructSymbol): TypeHierarchyItem | undefined {
+	const uri = symbol.getUri();
+	// A native type that has no declaration.
+	if (!uri) {
+		return undefined;
+	}
+
+	return {
+		name: symbol.getId().toString(),
+		kind: symbol.getKind(),
+		detail: symbol.getQualifiedName(),
+		uri,
+		range: symbol.getRange(),
+		selectionRange: symbol.id.range
+	};
+}
+
+function toTypeHierarchyItems(symbols: (ISymbol | undefined)[]): TypeHierarchyItem[] {
+	const items: TypeHierarchyItem[] = [];
+	for (const symbol of new Set(symbols)) {
+		const item = symbol instanceof UCStructSymbol && toTypeHierarchyItem(symbol);
+		if (item) {
+			items.push(item);
+		}
+	}
+	return items;
+}
+
+async function getTypeHierarchySymbol(uri: string, position: Position): Promise<UCStructSymbol | undefined> {
+	const symbol = await getSymbolDefinition(uri, position);
+	if (symbol instanceof UCClassSymbol || symbol instanceof UCScriptStructSymbol || symbol instanceof UCStateSymbol) {
+		return symbol;
+	}
+	return undefined;
+}
+
+export async function prepareTypeHierarchy(uri: string, position: Position): Promise<TypeHierarchyItem[] | null> {
+	const symbol = await getTypeHierarchySymbol(uri, position);
+	return symbol ? toTypeHierarchyItems([symbol]) : null;
+}
+
+export async function getTypeHierarchySupertypes(item: TypeHierarchyItem): Promise<TypeHierarchyItem[] | null> {
+	const symbol = await getTypeHierarchySymbol(item.uri, item.selectionRange.start);
+	if (!symbol) {
+		return null;
+	}
+
+	if (symbol instanceof UCClassSymbol) {
+		const types = [symbol.extendsType, symbol.withinType, ...(symbol.implementsTypes || [])];
+		return toTypeHierarchyItems(types.map(type => type && type.getReference()));
+	}
+	return toTypeHierarchyItems([symbol.super]);
+}
+
+export async function getTypeHierarchySubtypes(item: TypeHierarchyItem): Promise<TypeHierarchyItem[] | null> {
+	const symbol = await getTypeHierarchySymbol(item.uri, item.selectionRange.start);
+	if (!symbol) {
+		return null;
+	}
+
+	await indexWorkspaceDocuments();
+	return toTypeHierarchyItems(getSubtypes(symbol) || []);
+}
+
+const CallKindLabels: { [kind: number]: string | undefined } = {
+	[CallKind.Super]: '(super)',
+	[CallKind.Static]: '(static)',
+	[CallKind.Delegate]: '(delegate)'
+};
+
+function toCallHierarchyItem(symbol: UCStructSymbol, kind = CallKind.Default): CallHierarchyItem | undefined {
+	const uri = symbol.getUri();
+	// A native function that has no declaration.
+	if (!uri) {
+		return undefined;
+	}
+
+	const label = CallKindLabels[kind];
+	return {
+		name: symbol.getId().toString(),
+		kind: symbol.getKind(),
+		detail: label ? `${label} ${symbol.getQualifiedName()}` : symbol.getQualifiedName(),
+		uri,
+		range: symbol.getRange(),
+		selectionRange: symbol.id.range
+	};
+}
+
+async function getCallHierarchySymbol(uri: string, position: Position): Promise<UCMethodSymbol | undefined> {
+	const symbol = await getSymbolDefinition(uri, position);
+	return symbol instanceof UCMethodSymbol ? symbol : undefined;
+}
+
+/**
+ * Returns the function or state code that encloses the position.
+ */
+function findEnclosingCaller(container: UCStructSymbol, position: Position): UCStructSymbol | undefined {
+	for (let child = container.children; child; child = child.next) {
+		if (!(child instanceof UCStructSymbol) || !intersectsWith(child.getRange(), position)) {
+			continue;
+		}
+
+		if (child instanceof UCMethodSymbol) {
+			return child;
+		}
+
+		if (child instanceof UCStateSymbol) {
+			return findEnclosingCaller(child, position) || child;
+		}
+	}
+	return undefined;
+}
+
+function collectCalls(symbol: UCStructSymbol): ICallSite[] {
+	const collector = new CallsCollector();
+	if (symbol.block) {
+		symbol.block.accept<any>(collector);
+	}
+	return collector.calls;
+}
+
+export async function prepareCallHierarchy(uri: string, position: Position): Promise<CallHierarchyItem[] | null> {
+	const symbol = await getCallHierarchySymbol(uri, position);
+	const item = symbol && toCallHierarchyItem(symbol);
+	return item ? [item] : null;
+}
+
+/**
+ * Returns the callers of a function, including the callers of the functions it overrides if enabled,
+ * i.e. the callers of Actor.Tick are callers of Pawn.Tick as well.
+ */
+export async function getIncomingCalls(item: CallHierarchyItem): Promise<CallHierarchyIncomingCall[] | null> {
+	const symbol = await getCallHierarchySymbol(item.uri, item.selectionRange.start);
+	if (!symbol) {
+		return null;
+	}
+
+	// A caller is unknown to us until it has been indexed.
+	await indexWorkspaceDocuments();
+
+	const options = Object.assign({}, defaultSettings.unrealscript.callHierarchy, config.callHierarchy);
+	const targets: UCMethodSymbol[] = [symbol];
+	if (options.includeOverriddenMethods) {
+		for (let method = symbol.overriddenMethod; method; method = method.overriddenMethod) {
+			targets.push(method);
+		}
+	}
+
+	const callsByCaller = new Map<UCStructSymbol, ICallSite[]>();
+	const incomingCalls = new Map<UCStructSymbol, Map<CallKind, Range[]>>();
+	for (const target of targets) {
+		const references = getIndexedReferences(target);
+		if (!references) {
+			continue;
+		}
+
+		for (const ref of references) {
+			const document = getDocumentByUri(ref.location.uri);
+			const caller = document.class && findEnclosingCaller(document.class, ref.location.range.start);
+			if (!caller) {
+				continue;
+			}
+
+			let calls = callsByCaller.get(caller);
+			if (!calls) {
+				calls = collectCalls(caller);
+				callsByCaller.set(caller, calls);
+			}
+
+			// Not a call site, e.g. the declaration of an override, or a delegate assignment.
+			const start = ref.location.range.start;
+			const call = calls.find(call => call.range.start.line === start.line && call.range.start.character === start.character);
+			if (!call) {
+				continue;
+			}
+
+			// A super call always calls the overridden function.
+			if (target !== symbol && call.kind === CallKind.Super) {
+				continue;
+			}
+
+			const callsByKind = incomingCalls.get(caller) || new Map<CallKind, Range[]>();
+			const ranges = callsByKind.get(call.kind) || [];
+			ranges.push(call.range);
+			callsByKind.set(call.kind, ranges);
+			incomingCalls.set(caller, callsByKind);
+		}
+	}
+
+	const results: CallHierarchyIncomingCall[] = [];
+	for (const [caller, callsByKind] of incomingCalls) {
+		for (const [kind, fromRanges] of callsByKind) {
+			const from = toCallHierarchyItem(caller, kind);
+			if (from) {
+				results.push({ from, fromRanges });
+			}
+		}
+	}
+	return results;
+}
+
+export async function getOutgoingCalls(item: CallHierarchyItem): Promise<CallHierarchyOutgoingCall[] | null> {
+	const symbol = await getCallHierarchySymbol(item.uri, item.selectionRange.start);
+	if (!symbol) {
+		return null;
+	}
+
+	const outgoingCalls = new Map<UCMethodSymbol, Map<CallKind, Range[]>>();
+	for (const call of collectCalls(symbol)) {
+		const callsByKind = outgoingCalls.get(call.method) || new Map<CallKind, Range[]>();
+		const ranges = callsByKind.get(call.kind) || [];
+		ranges.push(call.range);
+		callsByKind.set(call.kind, ranges);
+		outgoingCalls.set(call.method, callsByKind);
+	}
+
+	const results: CallHierarchyOutgoingCall[] = [];
+	for (const [method, callsByKind] of outgoingCalls) {
+		for (const [kind, fromRanges] of callsByKind) {
+			const to = toCallHierarchyItem(method, kind);
+			if (to) {
+				results.push({ to, fromRanges });
+			}
+		}
+	}
+	return results;
+}
+
 export async function getSymbolHighlights(uri: string, position: Position): Promise<DocumentHighlight[] | undefined> {
 	const symbol = await getSymbolDefinition(uri, position);
 	if (!(symbol instanceof UCSymbol)) {
 		return undefined;
 	}
 
-	const references = getIndexedReferences(symbol.getHash());
+	const references = getIndexedReferences(symbol);
 	if (!references) {
 		return undefined;
 	}
@@ -233,6 +1178,184 @@ export async function getCompletableSymbolItems(uri: string, position: Position,
 	return contextCompletions;
 }
 
+// e.g. "simulated function Touch", the declaration of a function that has yet to be named.
+const FUNCTION_DECLARATION_REGEXP = /^\s*(\w+\s+)*?(function|event)\s+\w*$/i;
+
+function isOverridable(method: UCMethodSymbol): boolean {
+	return !(method.isFinal() || method.isPrivate()
+		|| method instanceof UCDelegateSymbol
+		|| method instanceof UCBaseOperatorSymbol);
+}
+
+/**
+ * Builds a snippet of @method's signature and body, the body calls the overridden function if enabled.
+ */
+function buildOverrideSnippet(method: UCMethodSymbol, callPrefix: string, insertSuperCall: boolean): string {
+	const returnType = method.returnType && method.returnType.getTypeText();
+	const params = method.params ? method.params.map(param => param.getTextForSignature()).join(', ') : '';
+	let text = `${returnType ? returnType + ' ' : ''}${method.getId()}(${params})\n{\n\t$0`;
+	if (insertSuperCall) {
+		const args = method.params ? method.params.map(param => param.getId().toString()).join(', ') : '';
+		const call = `${callPrefix}.${method.getId()}(${args});`;
+		text += '\n\t' + (returnType ? 'return ' + call : call);
+	}
+	return text + '\n}';
+}
+
+/**
+ * Completes the functions and events that can be overridden, when a function is being declared within a class or state.
+ */
+export async function getOverrideCompletionItems(textDocument: TextDocument, position: Position): Promise<CompletionItem[] | undefined> {
+	const lineText = textDocument.getText(Range.create(position.line, 0, position.line, position.character));
+	if (!FUNCTION_DECLARATION_REGEXP.test(lineText)) {
+		return undefined;
+	}
+
+	const document = getDocumentByUri(textDocument.uri);
+	let context = document && getDocumentCompletionContext(document, position);
+	// Skip the function that is being declared.
+	while (context && !(context instanceof UCClassSymbol || context instanceof UCStateSymbol)) {
+		context = context.outer;
+	}
+
+	if (!(context instanceof UCStructSymbol)) {
+		return undefined;
+	}
+
+	// The overridden function of a class is called by "global" from within a state.
+	const scopes: { struct: UCStructSymbol, callPrefix: string }[] = [];
+	for (let struct = context.super; struct; struct = struct.super) {
+		scopes.push({ struct, callPrefix: 'super' });
+	}
+
+	if (context instanceof UCStateSymbol && context.outer instanceof UCClassSymbol) {
+		for (let struct: UCStructSymbol | undefined = context.outer; struct; struct = struct.super) {
+			scopes.push({ struct, callPrefix: 'global' });
+		}
+	}
+
+	const options = Object.assign({}, defaultSettings.unrealscript.completion, config.completion);
+	const seenIds = new Set<Name>();
+	for (let child = context.children; child; child = child.next) {
+		seenIds.add(child.getId());
+	}
+
+	const items: CompletionItem[] = [];
+	for (const { struct, callPrefix } of scopes) {
+		for (let child = struct.children; child; child = child.next) {
+			if (!(child instanceof UCMethodSymbol) || seenIds.has(child.getId())) {
+				continue;
+			}
+
+			// The nearest declaration decides whether the function can be overridden.
+			seenIds.add(child.getId());
+			if (!isOverridable(child)) {
+				continue;
+			}
+
+			const item = CompletionItem.create(child.getId().toString());
+			item.kind = CompletionItemKind.Method;
+			item.detail = child.getTooltip();
+			item.insertTextFormat = InsertTextFormat.Snippet;
+			item.insertText = buildOverrideSnippet(child, callPrefix, options.insertSuperCall);
+
+			const documentation = child.getDocumentation();
+			if (documentation) {
+				item.documentation = { kind: MarkupKind.Markdown, value: documentation };
+			}
+			items.push(item);
+		}
+	}
+	return items;
+}
+
+/**
+ * Completes the statements within a defaultproperties or Begin Object block, if the position is within such a block.
+ */
+export async function getDefaultsCompletionItems(textDocument: TextDocument, position: Position): Promise<CompletionItem[] | undefined> {
+	const document = getDocumentByUri(textDocument.uri);
+	const context = document && getDocumentCompletionContext(document, position);
+	if (!(context instanceof UCDefaultPropertiesBlock || context instanceof UCObjectSymbol)) {
+		return undefined;
+	}
+	return getDefaultPropertiesCompletionItems(document, context, textDocument, position);
+}
+
+/**
+ * Completes the macros that are visible at the position, if the position follows a macro character e.g. "`".
+ */
+export async function getMacroCompletionItems(textDocument: TextDocument, position: Position): Promise<CompletionItem[] | undefined> {
+	const lineText = textDocument.getText(Range.create(position.line, 0, position.line, position.character));
+	if (!/`\w*$/.test(lineText)) {
+		return undefined;
+	}
+
+	const document = getDocumentByUri(textDocument.uri);
+	if (!document) {
+		return undefined;
+	}
+
+	const text = textDocument.getText().substr(0, textDocument.offsetAt(position));
+	return getVisibleMacroCompletionItems(document, text);
+}
+
+function isBeforePosition(position: Position, other: Position): boolean {
+	return position.line < other.line || (position.line === other.line && position.character <= other.character);
+}
+
+/**
+ * Returns the start of the last declaration of the last build that starts before @position.
+ * The declaration that is being written at the position starts there at the earliest, even if it has been built incompletely.
+ */
+function getLastDeclarationStart(document: UCDocument, position: Position): Position {
+	let start = Position.create(0, 0);
+	for (let scope: UCStructSymbol | undefined = document.class; scope; ) {
+		let innerScope: UCStructSymbol | undefined;
+		for (let child = scope.children; child; child = child.next) {
+			const range = child.getRange();
+			// The parameters are part of the function's declaration.
+			if (child instanceof UCParamSymbol
+				|| !isBeforePosition(range.start, position)
+				|| !isBeforePosition(start, range.start)) {
+				continue;
+			}
+
+			start = range.start;
+			innerScope = child instanceof UCStructSymbol && !isBeforePosition(range.end, position) ? child : undefined;
+		}
+		scope = innerScope;
+	}
+	return start;
+}
+
+/**
+ * Returns @text as tokenized by the lexer, but with its comments blanked out and its string and name literals emptied.
+ */
+function getCodeText(text: string): string {
+	const lexer = new UCLexer(new CaseInsensitiveStream(text));
+	lexer.removeErrorListeners();
+	return lexer
+		.getAllTokens()
+		.map(token => token.channel === UCLexer.COMMENTS_CHANNEL
+			? ' '
+			: token.type === UCLexer.STRING
+			? '""'
+			: token.type === UCLexer.NAME
+			? '\'\''
+			: token.text)
+		.join('');
+}
+
+/**
+ * Completes the modifiers of the declaration that is being written at the position, if any.
+ */
+export async function getModifierKeywordItems(textDocument: TextDocument, position: Position): Promise<CompletionItem[] | undefined> {
+	const document = getDocumentByUri(textDocument.uri);
+	const start = document ? getLastDeclarationStart(document, position) : Position.create(0, 0);
+	const text = getCodeText(textDocument.getText(Range.create(start, position)));
+	return getModifierCompletionItems(text, config.generation);
+}
+
 export async function getFullCompletionItem(item: CompletionItem): Promise<CompletionItem> {
 	if (item.data) {
 		const symbol = ClassesTable.findSymbol(item.data, true) as UCSymbol;
@@ -245,7 +1368,10 @@ export async function getFullCompletionItem(item: CompletionItem): Promise<Compl
 			console.warn("no uri for symbol", symbol);
 			return item;
 		}
-		item.documentation = symbol.getDocumentation();
+		const documentation = symbol.getDocumentation();
+		if (documentation) {
+			item.documentation = { kind: MarkupKind.Markdown, value: documentation };
+		}
 	}
 	return item;
 }
\ No newline at end of file
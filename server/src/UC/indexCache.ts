@@ -0,0 +1,516 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+
+import { Range } from 'vscode-languageserver-types';
+import { CommonToken, Token } from 'antlr4ts';
+import { URI } from 'vscode-uri';
+
+import {
+	Identifier, ISymbol, ITypeSymbol, UCFieldSymbol, UCStructSymbol, UCTypeKind,
+	UCDocumentClassSymbol, UCClassSymbol, UCConstSymbol, UCEnumSymbol, UCEnumMemberSymbol,
+	UCScriptStructSymbol, UCPropertySymbol, UCParamSymbol, UCLocalSymbol, UCStateSymbol,
+	UCMethodSymbol, UCEventSymbol, UCDelegateSymbol, UCBinaryOperatorSymbol, UCPreOperatorSymbol, UCPostOperatorSymbol,
+	MethodSpecifiers, FieldModifiers, ParamModifiers,
+	UCQualifiedTypeSymbol, UCObjectTypeSymbol, UCArrayTypeSymbol, UCDelegateTypeSymbol, UCMapTypeSymbol,
+	UCByteTypeSymbol, UCFloatTypeSymbol, UCIntTypeSymbol, UCStringTypeSymbol,
+	UCNameTypeSymbol, UCBoolTypeSymbol, UCPointerTypeSymbol, UCButtonTypeSymbol,
+	ObjectsTable
+} from './Symbols';
+import { UCLexer } from '../antlr/UCLexer';
+import { UCParser } from '../antlr/UCParser';
+
+import {
+	UCLiteral, UCByteLiteral, UCIntLiteral, UCFloatLiteral, UCStringLiteral, UCNameLiteral, UCBoolLiteral
+} from './expressions';
+import { UCDocument } from './document';
+import { setEnumMember } from './indexer';
+import { toName, NAME_ENUMCOUNT } from './names';
+
+const INDEX_CACHE_FILE_NAME = 'index-cache.json';
+
+interface ICachedType {
+	kind: string;
+	name: string;
+	range: Range;
+	// The range of the whole type e.g. "array<int>"
+	typeRange?: Range;
+	validTypeKind?: UCTypeKind;
+	baseType?: ICachedType;
+
+	// The qualified parts e.g. "Core.Object"
+	type?: ICachedType;
+	left?: ICachedType;
+}
+
+export interface ICachedSymbol {
+	kind: string;
+	name: string;
+	idRange: Range;
+	range: Range;
+	description?: string;
+	modifiers?: FieldModifiers;
+	children?: ICachedSymbol[];
+
+	// Class, struct, and state
+	extendsType?: ICachedType;
+	withinType?: ICachedType;
+	dependsOnTypes?: ICachedType[];
+	implementsTypes?: ICachedType[];
+
+	// Property and parameter
+	type?: ICachedType;
+	arrayDim?: string;
+	arrayDimRef?: ICachedType;
+	paramModifiers?: ParamModifiers;
+
+	// Method
+	specifiers?: MethodSpecifiers;
+	precedence?: number;
+	returnType?: ICachedType;
+	params?: ICachedSymbol[];
+
+	// Enum member
+	value?: number;
+
+	// Const
+	literal?: ICachedLiteral;
+}
+
+interface ICachedLiteral {
+	kind: string;
+	value?: number | string;
+}
+
+interface ICachedDocument {
+	mtime: number;
+	hash: string;
+	class?: ICachedSymbol;
+}
+
+export interface IIndexCache {
+	version: string;
+	// Keyed by the file path of a document.
+	documents: { [filePath: string]: ICachedDocument };
+}
+
+const PredefinedTypes: { [kind: string]: new (id: Identifier) => ITypeSymbol } = {
+	byte: UCByteTypeSymbol,
+	float: UCFloatTypeSymbol,
+	int: UCIntTypeSymbol,
+	string: UCStringTypeSymbol,
+	name: UCNameTypeSymbol,
+	bool: UCBoolTypeSymbol,
+	pointer: UCPointerTypeSymbol,
+	button: UCButtonTypeSymbol
+};
+
+const ObjectTypes: { [kind: string]: typeof UCObjectTypeSymbol } = {
+	array: UCArrayTypeSymbol,
+	delegate: UCDelegateTypeSymbol,
+	map: UCMapTypeSymbol,
+	object: UCObjectTypeSymbol
+};
+
+const LiteralTypes: { [kind: string]: new (range: Range) => UCLiteral } = {
+	byte: UCByteLiteral,
+	int: UCIntLiteral,
+	float: UCFloatLiteral,
+	string: UCStringLiteral,
+	name: UCNameLiteral,
+	bool: UCBoolLiteral
+};
+
+const MethodTypes: { [kind: string]: typeof UCMethodSymbol } = {
+	event: UCEventSymbol,
+	delegate: UCDelegateSymbol,
+	operator: UCBinaryOperatorSymbol,
+	preoperator: UCPreOperatorSymbol,
+	postoperator: UCPostOperatorSymbol,
+	function: UCMethodSymbol
+};
+
+function getKindOf<T>(symbol: ISymbol | UCLiteral, types: { [kind: string]: new (...args: any[]) => T }): string | undefined {
+	// The base types are listed last, so that the first match is the most derived type.
+	return Object.keys(types).find(kind => symbol instanceof types[kind]);
+}
+
+function hashText(text: string | Buffer): string {
+	return crypto.createHash('md5').update(text).digest('hex');
+}
+
+function serializeType(type: ITypeSymbol): ICachedType | undefined {
+	if (type instanceof UCQualifiedTypeSymbol) {
+		return {
+			kind: 'qualified',
+			name: type.getId().toString(),
+			range: type.id.range,
+			type: serializeType(type.type),
+			left: type.left && serializeType(type.left)
+		};
+	}
+
+	if (type instanceof UCObjectTypeSymbol) {
+		return {
+			kind: getKindOf(type, ObjectTypes)!,
+			name: type.getId().toString(),
+			range: type.id.range,
+			typeRange: type.getRange(),
+			validTypeKind: type.getValidTypeKind(),
+			baseType: type.baseType && serializeType(type.baseType)
+		};
+	}
+
+	const kind = getKindOf(type, PredefinedTypes);
+	return kind ? { kind, name: type.getId().toString(), range: type.id.range } : undefined;
+}
+
+function restoreType(cachedType: ICachedType): ITypeSymbol {
+	const id: Identifier = { name: toName(cachedType.name), range: cachedType.range };
+	if (cachedType.kind === 'qualified') {
+		return new UCQualifiedTypeSymbol(
+			restoreType(cachedType.type!) as UCObjectTypeSymbol,
+			cachedType.left && restoreType(cachedType.left) as UCQualifiedTypeSymbol
+		);
+	}
+
+	const objectType = ObjectTypes[cachedType.kind];
+	if (objectType) {
+		const type = new objectType(id, cachedType.typeRange, cachedType.validTypeKind);
+		if (cachedType.baseType) {
+			type.baseType = restoreType(cachedType.baseType);
+		}
+		return type;
+	}
+	return new PredefinedTypes[cachedType.kind](id);
+}
+
+// The literals that hold a value, all but a bool literal.
+type ValueLiteral = UCLiteral & { value?: number | string };
+
+// Only the value of a literal is cached, a const that is initialized by any other expression is restored without its expression.
+function serializeLiteral(literal: UCLiteral): ICachedLiteral | undefined {
+	const kind = getKindOf(literal, LiteralTypes);
+	return kind ? { kind, value: (literal as ValueLiteral).value } : undefined;
+}
+
+function restoreLiteral(cachedLiteral: ICachedLiteral, range: Range): UCLiteral {
+	const literal = new LiteralTypes[cachedLiteral.kind](range);
+	if (typeof cachedLiteral.value !== 'undefined') {
+		(literal as ValueLiteral).value = cachedLiteral.value;
+	}
+	return literal;
+}
+
+/**
+ * Returns the children of @symbol in order of declaration, the children are linked in reverse.
+ */
+function getChildren(symbol: UCStructSymbol): UCFieldSymbol[] {
+	const children: UCFieldSymbol[] = [];
+	for (let child = symbol.children; child; child = child.next) {
+		children.unshift(child);
+	}
+	return children;
+}
+
+function serializeSymbol(symbol: UCFieldSymbol): ICachedSymbol | undefined {
+	const cachedSymbol: ICachedSymbol = {
+		kind: '',
+		name: symbol.getId().toString(),
+		idRange: symbol.id.range,
+		range: symbol.getRange(),
+		description: symbol.description && symbol.description.map(token => token.text).join('\n'),
+		modifiers: symbol.modifiers || undefined
+	};
+
+	if (symbol instanceof UCStructSymbol) {
+		cachedSymbol.extendsType = symbol.extendsType && serializeType(symbol.extendsType);
+	}
+
+	if (symbol instanceof UCClassSymbol) {
+		cachedSymbol.kind = 'class';
+		cachedSymbol.withinType = symbol.withinType && serializeType(symbol.withinType);
+		cachedSymbol.dependsOnTypes = symbol.dependsOnTypes && symbol.dependsOnTypes.map(type => serializeType(type)!);
+		cachedSymbol.implementsTypes = symbol.implementsTypes && symbol.implementsTypes.map(type => serializeType(type)!);
+		cachedSymbol.children = serializeChildren(symbol);
+	} else if (symbol instanceof UCMethodSymbol) {
+		cachedSymbol.kind = getKindOf(symbol, MethodTypes)!;
+		cachedSymbol.specifiers = symbol.specifiers;
+		cachedSymbol.precedence = symbol instanceof UCBinaryOperatorSymbol ? symbol.precedence : undefined;
+		cachedSymbol.returnType = symbol.returnType && serializeType(symbol.returnType);
+		cachedSymbol.params = symbol.params && symbol.params.map(param => serializeSymbol(param)!);
+	} else if (symbol instanceof UCStateSymbol) {
+		cachedSymbol.kind = 'state';
+		cachedSymbol.children = serializeChildren(symbol);
+	} else if (symbol instanceof UCScriptStructSymbol) {
+		cachedSymbol.kind = 'struct';
+		cachedSymbol.children = serializeChildren(symbol);
+	} else if (symbol instanceof UCEnumSymbol) {
+		cachedSymbol.kind = 'enum';
+		cachedSymbol.children = serializeChildren(symbol);
+	} else if (symbol instanceof UCEnumMemberSymbol) {
+		cachedSymbol.kind = 'enumMember';
+		cachedSymbol.value = symbol.value;
+	} else if (symbol instanceof UCConstSymbol) {
+		cachedSymbol.kind = 'const';
+		cachedSymbol.literal = symbol.expression instanceof UCLiteral ? serializeLiteral(symbol.expression) : undefined;
+	} else if (symbol instanceof UCParamSymbol) {
+		cachedSymbol.kind = 'param';
+		cachedSymbol.paramModifiers = symbol.paramModifiers || undefined;
+	} else if (symbol instanceof UCLocalSymbol) {
+		// Locals are not part of the declarations.
+		return undefined;
+	} else if (symbol instanceof UCPropertySymbol) {
+		cachedSymbol.kind = 'property';
+	} else {
+		// e.g. replication and defaultproperties blocks, these have to be parsed.
+		return undefined;
+	}
+
+	if (symbol instanceof UCPropertySymbol) {
+		cachedSymbol.type = symbol.type && serializeType(symbol.type);
+		cachedSymbol.arrayDim = symbol.arrayDim;
+		cachedSymbol.arrayDimRef = symbol.arrayDimRef && serializeType(symbol.arrayDimRef);
+	}
+	return cachedSymbol;
+}
+
+function serializeChildren(symbol: UCStructSymbol): ICachedSymbol[] {
+	const children: ICachedSymbol[] = [];
+	for (const child of getChildren(symbol)) {
+		const cachedChild = serializeSymbol(child);
+		if (cachedChild) {
+			children.push(cachedChild);
+		}
+	}
+	return children;
+}
+
+function createSymbol(cachedSymbol: ICachedSymbol): UCFieldSymbol {
+	const id: Identifier = { name: toName(cachedSymbol.name), range: cachedSymbol.idRange };
+	switch (cachedSymbol.kind) {
+		case 'class': return new UCDocumentClassSymbol(id, cachedSymbol.range);
+		case 'state': return new UCStateSymbol(id, cachedSymbol.range);
+		case 'struct': return new UCScriptStructSymbol(id, cachedSymbol.range);
+		case 'enum': return new UCEnumSymbol(id, cachedSymbol.range);
+		case 'enumMember': return new UCEnumMemberSymbol(id, cachedSymbol.range);
+		case 'const': return new UCConstSymbol(id, cachedSymbol.range);
+		case 'param': return new UCParamSymbol(id, cachedSymbol.range);
+		case 'property': return new UCPropertySymbol(id, cachedSymbol.range);
+		default: {
+			const methodType = MethodTypes[cachedSymbol.kind];
+			if (!methodType) {
+				throw new Error(`Unknown symbol kind '${cachedSymbol.kind}' in the index cache.`);
+			}
+			return new methodType(id, cachedSymbol.range);
+		}
+	}
+}
+
+/**
+ * Re-creates a cached symbol, similar to how the symbol is declared by the DocumentASTWalker.
+ */
+function restoreSymbol(cachedSymbol: ICachedSymbol): UCFieldSymbol {
+	const symbol = createSymbol(cachedSymbol);
+	if (cachedSymbol.description) {
+		symbol.description = [new CommonToken(Token.INVALID_TYPE, cachedSymbol.description)];
+	}
+
+	if (cachedSymbol.modifiers) {
+		symbol.modifiers = cachedSymbol.modifiers;
+	}
+
+	if (symbol instanceof UCStructSymbol && cachedSymbol.extendsType) {
+		symbol.extendsType = restoreType(cachedSymbol.extendsType);
+	}
+
+	if (symbol instanceof UCClassSymbol) {
+		symbol.withinType = cachedSymbol.withinType && restoreType(cachedSymbol.withinType);
+		symbol.dependsOnTypes = cachedSymbol.dependsOnTypes && cachedSymbol.dependsOnTypes.map(type => restoreType(type) as UCObjectTypeSymbol);
+		symbol.implementsTypes = cachedSymbol.implementsTypes && cachedSymbol.implementsTypes.map(type => restoreType(type) as UCObjectTypeSymbol);
+	} else if (symbol instanceof UCMethodSymbol) {
+		symbol.specifiers = cachedSymbol.specifiers || MethodSpecifiers.None;
+		if (symbol instanceof UCBinaryOperatorSymbol) {
+			symbol.precedence = cachedSymbol.precedence;
+		}
+		symbol.returnType = cachedSymbol.returnType && restoreType(cachedSymbol.returnType);
+		if (cachedSymbol.params) {
+			symbol.params = cachedSymbol.params.map(cachedParam => {
+				const param = restoreSymbol(cachedParam) as UCParamSymbol;
+				symbol.addSymbol(param);
+				return param;
+			});
+		}
+	} else if (symbol instanceof UCEnumMemberSymbol) {
+		symbol.value = cachedSymbol.value!;
+		if (symbol.getId() !== NAME_ENUMCOUNT) {
+			setEnumMember(symbol);
+		}
+	} else if (symbol instanceof UCConstSymbol && cachedSymbol.literal) {
+		symbol.expression = restoreLiteral(cachedSymbol.literal, cachedSymbol.idRange);
+	}
+
+	if (symbol instanceof UCParamSymbol && cachedSymbol.paramModifiers) {
+		symbol.paramModifiers = cachedSymbol.paramModifiers;
+	}
+
+	if (symbol instanceof UCPropertySymbol) {
+		symbol.type = cachedSymbol.type && restoreType(cachedSymbol.type);
+		symbol.arrayDim = cachedSymbol.arrayDim;
+		symbol.arrayDimRef = cachedSymbol.arrayDimRef && restoreType(cachedSymbol.arrayDimRef);
+	}
+
+	if (symbol instanceof UCStructSymbol && cachedSymbol.children) {
+		for (const cachedChild of cachedSymbol.children) {
+			const child = restoreSymbol(cachedChild);
+			symbol.addSymbol(child);
+			if (child instanceof UCScriptStructSymbol || child instanceof UCEnumSymbol) {
+				ObjectsTable.addSymbol(child);
+			}
+		}
+	}
+	return symbol;
+}
+
+/**
+ * Returns the declarations of @document in the form of the cache, so that these can be restored elsewhere.
+ */
+export function serializeDocument(document: UCDocument): ICachedSymbol | undefined {
+	return document.class && serializeSymbol(document.class);
+}
+
+/**
+ * Restores the declarations of @document, the document is considered indexed for its declarations only, and has yet to be linked by @linkRestoredDocuments.
+ */
+export function restoreDocument(document: UCDocument, cachedClass?: ICachedSymbol) {
+	if (cachedClass) {
+		const symbol = restoreSymbol(cachedClass) as UCDocumentClassSymbol;
+		symbol.document = document;
+		document.class = symbol;
+		document.addSymbol(symbol);
+		document.classPackage.addSymbol(symbol);
+	}
+	document.hasBeenIndexed = true;
+	document.hasDeclarationsOnly = true;
+}
+
+function getFileInfo(document: UCDocument): { filePath: string, mtime: number } {
+	const filePath = URI.parse(document.filePath).fsPath;
+	return { filePath, mtime: fs.statSync(filePath).mtimeMs };
+}
+
+/**
+ * Restores the declarations of the @documents that have not changed since they were cached,
+ * a document is considered unchanged if its modification time, or otherwise its content, matches the cache.
+ * Returns the documents that could not be restored, these have yet to be indexed.
+ */
+export function restoreDocumentsFromCache(documents: UCDocument[], cache: IIndexCache): UCDocument[] {
+	const restoredDocuments: UCDocument[] = [];
+	const pendingDocuments: UCDocument[] = [];
+	for (const document of documents) {
+		if (document.hasBeenIndexed) {
+			continue;
+		}
+
+		try {
+			const { filePath, mtime } = getFileInfo(document);
+			const cachedDocument = cache.documents[filePath];
+			if (cachedDocument && (cachedDocument.mtime === mtime || cachedDocument.hash === hashText(document.readText()))) {
+				cachedDocument.mtime = mtime;
+				restoreDocument(document, cachedDocument.class);
+				restoredDocuments.push(document);
+				continue;
+			}
+		} catch (err) {
+			console.error(`Couldn't restore document "${document.filePath}" from the index cache`, err);
+			document.invalidate();
+		}
+		pendingDocuments.push(document);
+	}
+
+	linkRestoredDocuments(restoredDocuments);
+	return pendingDocuments;
+}
+
+/**
+ * Links the declarations of the restored @documents, must be called once all of the restored classes are available.
+ */
+export function linkRestoredDocuments(documents: UCDocument[]) {
+	for (const document of documents) {
+		if (document.class) {
+			try {
+				document.class.index(document, document.class);
+			} catch (err) {
+				console.error(`An error was thrown while indexing restored document: "${document.filePath}"`, err);
+			}
+		}
+	}
+}
+
+/**
+ * The version of the cache's format, must be bumped whenever the (de)serialized symbols change,
+ * or when the indexing changes what is declared e.g. a change to the DocumentASTWalker or to the symbol classes.
+ */
+const INDEX_CACHE_FORMAT_VERSION = 1;
+
+/**
+ * The version of the cache, combined with the grammar so that a cache that has been written by a different grammar is discarded as well.
+ */
+const INDEX_CACHE_VERSION = INDEX_CACHE_FORMAT_VERSION + '-' + hashText(UCLexer._serializedATN + UCParser._serializedATN);
+
+export function readIndexCache(storagePath: string): IIndexCache | undefined {
+	const filePath = path.join(storagePath, INDEX_CACHE_FILE_NAME);
+	if (!fs.existsSync(filePath)) {
+		return undefined;
+	}
+
+	try {
+		const cache: IIndexCache = JSON.parse(fs.readFileSync(filePath).toString());
+		return cache.version === INDEX_CACHE_VERSION ? cache : undefined;
+	} catch (err) {
+		console.error(`Couldn't read the index cache "${filePath}"`, err);
+		return undefined;
+	}
+}
+
+/**
+ * Writes the declarations of all indexed @documents to the cache in @storagePath.
+ * The cached entries of restored documents are kept as is, because the documents have not changed since.
+ */
+export function writeIndexCache(storagePath: string, documents: UCDocument[], previousCache?: IIndexCache) {
+	const cache: IIndexCache = {
+		version: INDEX_CACHE_VERSION,
+		documents: {}
+	};
+
+	for (const document of documents) {
+		if (!document.hasBeenIndexed) {
+			continue;
+		}
+
+		try {
+			const { filePath, mtime } = getFileInfo(document);
+			const previousDocument = previousCache && previousCache.documents[filePath];
+			// A document that has been built in a worker is restored as well, but it has changed since it was cached.
+			if (document.hasDeclarationsOnly && previousDocument && previousDocument.mtime === mtime) {
+				cache.documents[filePath] = previousDocument;
+				continue;
+			}
+
+			cache.documents[filePath] = {
+				mtime,
+				hash: hashText(document.readText()),
+				class: serializeDocument(document)
+			};
+		} catch (err) {
+			console.error(`Couldn't cache document "${document.filePath}"`, err);
+		}
+	}
+
+	try {
+		fs.mkdirSync(storagePath, { recursive: true });
+		fs.writeFileSync(path.join(storagePath, INDEX_CACHE_FILE_NAME), JSON.stringify(cache));
+	} catch (err) {
+		console.error(`Couldn't write the index cache to "${storagePath}"`, err);
+	}
+}
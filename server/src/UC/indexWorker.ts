@@ -0,0 +1,28 @@
+import { parentPort, workerData } from 'worker_threads';
+
+import { UCPreprocessorParser } from '../antlr/UCPreprocessorParser';
+
+import { UCPackage } from './Symbols';
+import { UCDocument } from './document';
+import { config } from './indexer';
+import { serializeDocument } from './indexCache';
+import { toName } from './names';
+import type { IIndexWorkerData, IIndexWorkerRequest, IIndexWorkerResponse } from './indexWorkerPool';
+
+// The entry of a worker thread, see @buildDocumentsInWorkers.
+// Each request is parsed and walked on its own, the symbols are never linked, because the other classes only exist on the main thread.
+const data: IIndexWorkerData = workerData;
+Object.assign(config, data.options);
+UCPreprocessorParser.globalSymbols = new Map(data.macroSymbols);
+
+parentPort!.on('message', (request: IIndexWorkerRequest) => {
+	const response: IIndexWorkerResponse = { uri: request.uri };
+	try {
+		const document = new UCDocument(request.uri, new UCPackage(toName(request.packageName)));
+		document.build();
+		response.class = serializeDocument(document);
+	} catch (err) {
+		response.error = err.stack || String(err);
+	}
+	parentPort!.postMessage(response);
+});
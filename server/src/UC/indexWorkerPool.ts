@@ -0,0 +1,130 @@
+import * as os from 'os';
+import * as path from 'path';
+
+import { Worker } from 'worker_threads';
+
+import { UCPreprocessorParser } from '../antlr/UCPreprocessorParser';
+import { UCOptions } from '../settings';
+
+import { UCDocument } from './document';
+import { ICachedSymbol, restoreDocument, linkRestoredDocuments } from './indexCache';
+import { config } from './indexer';
+
+const INDEX_WORKER_FILE_NAME = 'indexWorker.js';
+
+export interface IIndexWorkerData {
+	options: UCOptions;
+	// The global macros, including those of globals.uci, which has to be indexed before the workers are started.
+	macroSymbols: [string, { params?: string[], text: string }][];
+}
+
+export interface IIndexWorkerRequest {
+	uri: string;
+	packageName: string;
+}
+
+export interface IIndexWorkerResponse {
+	uri: string;
+	// The declarations of the document, in the form of the index cache.
+	class?: ICachedSymbol;
+	error?: string;
+}
+
+/**
+ * Returns the configured size of the pool, or one less than the number of CPU cores so that the main thread keeps a core of its own.
+ * Returns 0 if the pool is too small to be of any use, in which case the documents are to be indexed on the main thread instead.
+ */
+export function getIndexWorkerCount(): number {
+	const workerCount = typeof config.indexWorkerCount === 'number'
+		? config.indexWorkerCount
+		: os.cpus().length - 1;
+	return workerCount > 1 ? workerCount : 0;
+}
+
+/**
+ * Builds the @documents in a pool of worker threads, so that the main thread remains responsive while parsing.
+ * The declarations are restored as the workers send them back, and linked once all of the documents have been built.
+ * Resolves with the documents that have been indexed, a document that failed in a worker has yet to be indexed.
+ * Like a restored document, a built document has its declarations only, its code is indexed once the document is opened,
+ * or once the references are requested, see @indexDeclarationsOnlyDocuments.
+ */
+export function buildDocumentsInWorkers(documents: UCDocument[], workerCount = getIndexWorkerCount()): Promise<UCDocument[]> {
+	const pendingDocuments = documents.slice();
+	const builtDocuments: UCDocument[] = [];
+	const workerData: IIndexWorkerData = {
+		options: config,
+		macroSymbols: Array.from(UCPreprocessorParser.globalSymbols)
+	};
+
+	return new Promise(resolve => {
+		const poolSize = Math.min(workerCount, pendingDocuments.length);
+		let activeWorkerCount = poolSize;
+		const finishWorker = () => {
+			if (--activeWorkerCount === 0) {
+				linkRestoredDocuments(builtDocuments);
+				resolve(builtDocuments);
+			}
+		};
+
+		const startWorker = () => {
+			let worker: Worker;
+			try {
+				worker = new Worker(path.join(__dirname, INDEX_WORKER_FILE_NAME), { workerData });
+			} catch (err) {
+				console.error('Couldn\'t start an index worker', err);
+				finishWorker();
+				return;
+			}
+
+			let currentDocument: UCDocument | undefined;
+			const buildNextDocument = () => {
+				currentDocument = pendingDocuments.shift();
+				if (!currentDocument) {
+					worker.terminate();
+					finishWorker();
+					return;
+				}
+
+				const request: IIndexWorkerRequest = {
+					uri: currentDocument.filePath,
+					packageName: currentDocument.classPackage.getId().toString()
+				};
+				worker.postMessage(request);
+			};
+
+			worker.on('message', (response: IIndexWorkerResponse) => {
+				const document = currentDocument!;
+				if (response.error) {
+					console.error(`An error was thrown while building document in a worker: "${response.uri}"`, response.error);
+				} else if (!document.hasBeenIndexed) {
+					// The document may have been indexed on the main thread in the meantime e.g. when opened.
+					try {
+						restoreDocument(document, response.class);
+						builtDocuments.push(document);
+					} catch (err) {
+						console.error(`Couldn't restore document "${response.uri}" from a worker`, err);
+						document.invalidate();
+					}
+				}
+				buildNextDocument();
+			});
+
+			// The document that was being built is left as is, so that it can be indexed on the main thread instead.
+			worker.on('error', (err) => {
+				console.error('An index worker has failed', err);
+				finishWorker();
+			});
+
+			buildNextDocument();
+		};
+
+		if (poolSize === 0) {
+			resolve(builtDocuments);
+			return;
+		}
+
+		for (let i = 0; i < poolSize; ++ i) {
+			startWorker();
+		}
+	});
+}
@@ -0,0 +1,99 @@
+import * as path from 'path';
+import { expect } from 'chai';
+import { URI } from 'vscode-uri';
+
+import { UCClassSymbol, UCConstSymbol, UCObjectTypeSymbol, UCPropertySymbol } from './Symbols';
+import { UCObjectLiteral } from './expressions';
+import {
+	config, getDocumentByUri, getUriById, queuIndexDocument, relinkDocument, getDependentDocuments, getSubtypes,
+	setFolderClassesMap, mergeFolderClassesMaps, removeFolder
+} from './indexer';
+import { toName } from './names';
+
+const FOLDERS_DIR = path.resolve(__dirname, '../../../grammars/examples/Folders');
+const FOLDER_A = path.join(FOLDERS_DIR, 'A');
+const FOLDER_B = path.join(FOLDERS_DIR, 'B');
+
+function getClassPath(folderPath: string, className: string): string {
+	return path.join(folderPath, 'Classes', className + '.uc');
+}
+
+function getClassUri(folderPath: string, className: string): string {
+	return URI.file(getClassPath(folderPath, className)).toString();
+}
+
+describe('Isolated workspace folders', () => {
+	const isolateWorkspaceFolders = config.isolateWorkspaceFolders;
+
+	before(() => {
+		config.isolateWorkspaceFolders = true;
+		// Folder B is added first, so that it keeps the shared class in the merged classes.
+		setFolderClassesMap(FOLDER_B, new Map([
+			['isolatedbase', getClassPath(FOLDER_B, 'IsolatedBase')]
+		]));
+		setFolderClassesMap(FOLDER_A, new Map([
+			['isolatedbase', getClassPath(FOLDER_A, 'IsolatedBase')],
+			['isolatedchild', getClassPath(FOLDER_A, 'IsolatedChild')]
+		]));
+		mergeFolderClassesMaps();
+	});
+
+	after(() => {
+		removeFolder(FOLDER_A);
+		removeFolder(FOLDER_B);
+		mergeFolderClassesMaps();
+		config.isolateWorkspaceFolders = isolateWorkspaceFolders;
+	});
+
+	it('prefers the class of the requesting folder', () => {
+		expect(getUriById('isolatedbase', getClassUri(FOLDER_A, 'IsolatedChild'))).to.equal(getClassUri(FOLDER_A, 'IsolatedBase'));
+		expect(getUriById('isolatedbase')).to.equal(getClassUri(FOLDER_B, 'IsolatedBase'));
+	});
+
+	it('links a class to the classes of its own folder', () => {
+		// The shared class of folder B is indexed first, and thus known to the classes table.
+		queuIndexDocument(getDocumentByUri(getClassUri(FOLDER_B, 'IsolatedBase')));
+
+		const document = getDocumentByUri(getClassUri(FOLDER_A, 'IsolatedChild'));
+		queuIndexDocument(document);
+
+		const classSymbol = document.class as UCClassSymbol;
+		expect(classSymbol.super!.getUri()).to.equal(getClassUri(FOLDER_A, 'IsolatedBase'));
+
+		const property = classSymbol.getSymbol(toName('Base')) as UCPropertySymbol;
+		const type = property.type as UCObjectTypeSymbol;
+		expect((type.getReference() as UCClassSymbol).getUri()).to.equal(getClassUri(FOLDER_A, 'IsolatedBase'));
+	});
+
+	it('keeps the subtypes of the classes of each folder apart', () => {
+		const document = getDocumentByUri(getClassUri(FOLDER_A, 'IsolatedChild'));
+		const baseA = getDocumentByUri(getClassUri(FOLDER_A, 'IsolatedBase')).class!;
+		const baseB = getDocumentByUri(getClassUri(FOLDER_B, 'IsolatedBase')).class!;
+
+		expect(getSubtypes(baseA)).to.include(document.class);
+		expect(getSubtypes(baseB) || []).to.not.include(document.class);
+	});
+
+	it('re-links a dependent to the symbols of a re-indexed dependency', () => {
+		const baseDocument = getDocumentByUri(getClassUri(FOLDER_A, 'IsolatedBase'));
+		const document = getDocumentByUri(getClassUri(FOLDER_A, 'IsolatedChild'));
+		expect(getDependentDocuments(baseDocument)).to.include(document);
+
+		const classSymbol = document.class as UCClassSymbol;
+		baseDocument.invalidate();
+		queuIndexDocument(baseDocument);
+		relinkDocument(document);
+
+		// The dependent keeps its own symbols.
+		expect(document.class).to.equal(classSymbol);
+		expect(classSymbol.super).to.equal(baseDocument.class);
+
+		const property = classSymbol.getSymbol(toName('Base')) as UCPropertySymbol;
+		expect((property.type as UCObjectTypeSymbol).getReference()).to.equal(baseDocument.class);
+
+		const constSymbol = classSymbol.getSymbol(toName('BaseClass')) as UCConstSymbol;
+		const literal = constSymbol.expression as UCObjectLiteral;
+		expect(literal.objectRef!.getReference()).to.equal(baseDocument.class);
+		expect(literal.castRef.getReference()).to.not.be.undefined;
+	});
+});
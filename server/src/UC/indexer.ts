@@ -4,10 +4,10 @@ import { URI } from 'vscode-uri';
 import { BehaviorSubject, Subject } from 'rxjs';
 import { performance } from 'perf_hooks';
 
-import { UCOptions, ServerSettings, EAnalyzeOption } from '../settings';
+import { UCOptions, ServerSettings, EAnalyzeOption, EBraceStyle, EIndentation } from '../settings';
 import { UCPreprocessorParser } from '../antlr/UCPreprocessorParser';
 
-import { ISymbolReference, UCPackage, PackagesTable, TRANSIENT_PACKAGE, UCEnumMemberSymbol } from './Symbols';
+import { ISymbol, ISymbolReference, UCPackage, PackagesTable, TRANSIENT_PACKAGE, UCEnumMemberSymbol, UCStructSymbol } from './Symbols';
 import { UCDocument } from './document';
 import { Name, toName } from './names';
 import { DocumentIndexer } from './documentIndexer';
@@ -33,7 +33,27 @@ export const defaultSettings: ServerSettings = {
 		},
 		intrinsicSymbols: {
 
-		}
+		},
+		format: {
+			braceStyle: EBraceStyle.NextLine,
+			indentation: EIndentation.Editor,
+			indentSize: 4,
+			spaceAroundOperators: true,
+			alignDefaultProperties: false
+		},
+		callHierarchy: {
+			includeOverriddenMethods: true
+		},
+		inlayHints: {
+			parameterNames: true,
+			skippedParameters: true,
+			iteratorTypes: true
+		},
+		completion: {
+			insertSuperCall: true
+		},
+		isolateWorkspaceFolders: false,
+		indexWorkerCount: null
 	}
 };
 
@@ -55,6 +75,11 @@ export function applyMacroSymbols(symbols?: { [key: string]: string }) {
  * This array is filled by the documentLinked$ listener.
  **/
 export const lastIndexedDocuments$ = new Subject<UCDocument[]>();
+
+/**
+ * Emits an array of documents that are linked to symbols that have since been replaced or removed, and have to be re-linked.
+ */
+export const staleDocuments$ = new Subject<UCDocument[]>();
 let pendingIndexedDocuments: UCDocument[] = [];
 
 export function indexDocument(document: UCDocument, text?: string) {
@@ -103,16 +128,56 @@ function postIndexDocument(document: UCDocument) {
 export function queuIndexDocument(document: UCDocument, text?: string) {
 	indexDocument(document, text);
 
-	if (pendingIndexedDocuments) {
+	const documents = postIndexPendingDocuments();
+	if (documents.length) {
+		lastIndexedDocuments$.next(documents);
+	}
+}
+
+/**
+ * Links the symbols of @document again, without parsing the document,
+ * i.e. when a dependency has been re-indexed, the symbols that the document is linked to have been replaced.
+ */
+export function relinkDocument(document: UCDocument) {
+	document.unlink();
+	if (document.class) {
+		try {
+			document.class.index(document, document.class);
+		} catch (err) {
+			console.error(
+				`An error was thrown while relinking document: "${document.filePath}",
+				\n
+				\t stack: "${err.stack}"`
+			);
+		}
+	}
+
+	// The code of a document with declarations only has yet to be indexed, and thus can't be analyzed either.
+	if (!document.hasDeclarationsOnly) {
+		pendingIndexedDocuments.push(document);
+	}
+
+	const documents = postIndexPendingDocuments();
+	if (documents.length) {
+		lastIndexedDocuments$.next(documents);
+	}
+}
+
+/**
+ * Post indexes the documents that have been indexed since the last call, without emitting them to @lastIndexedDocuments$
+ * i.e. when a batch of documents is indexed, the batch should be emitted once it has been completed.
+ */
+export function postIndexPendingDocuments(): UCDocument[] {
+	const documents = pendingIndexedDocuments;
+	pendingIndexedDocuments = [];
+	if (documents.length) {
 		const startTime = performance.now();
-		for (const doc of pendingIndexedDocuments) {
+		for (const doc of documents) {
 			postIndexDocument(doc);
 		}
-		console.info(`[${pendingIndexedDocuments.map(doc => doc.fileName).join()}]: post indexing time ${(performance.now() - startTime)}`);
-
-		lastIndexedDocuments$.next(pendingIndexedDocuments);
-		pendingIndexedDocuments = [];
+		console.info(`[${documents.map(doc => doc.fileName).join()}]: post indexing time ${(performance.now() - startTime)}`);
 	}
+	return documents;
 }
 
 function findPackageNameInDir(dir: string): string {
@@ -143,6 +208,15 @@ function getPackageByUri(uri: string): UCPackage {
 	return pkg;
 }
 
+/**
+ * Returns the name of the package of the document at @uri, unlike getPackageByUri() without registering the package.
+ */
+export function getPackageNameByUri(uri: string): string {
+	const dir = path.parse(uri).dir;
+	const pkg = packageByDirMap.get(dir);
+	return pkg ? pkg.getId().toString() : findPackageNameInDir(dir);
+}
+
 export function getDocumentByUri(uri: string): UCDocument {
 	let document = documentByURIMap.get(uri);
 	if (document) {
@@ -155,19 +229,160 @@ export function getDocumentByUri(uri: string): UCDocument {
 	return document;
 }
 
-export function getUriById(id: string): string | undefined {
-	const filePath = filePathByClassIdMap$.getValue().get(id);
+/**
+ * Returns the uri of the file that declares the class @id,
+ * if the workspace folders are isolated, the folder of @contextUri is preferred over the other folders.
+ */
+export function getUriById(id: string, contextUri?: string): string | undefined {
+	const folderClassesMap = config.isolateWorkspaceFolders && contextUri
+		? classesMapByFolderPath.get(getFolderPathOf(URI.parse(contextUri).fsPath))
+		: undefined;
+	const filePath = folderClassesMap && folderClassesMap.get(id) || filePathByClassIdMap$.getValue().get(id);
 	return filePath ? URI.file(filePath).toString() : undefined;
 }
 
-export function getDocumentById(id: string): UCDocument | undefined {
-	const uri = getUriById(id);
+export function getDocumentById(id: string, contextUri?: string): UCDocument | undefined {
+	const uri = getUriById(id, contextUri);
 	if (!uri) {
 		return undefined;
 	}
 	return getDocumentByUri(uri);
 }
 
+/**
+ * The file paths of the classes of each workspace folder, keyed by the folder's path.
+ * The files that are not within any workspace folder are keyed by an empty path.
+ */
+const classesMapByFolderPath = new Map<string, Map<string, string>>();
+
+function toClassId(filePath: string): string {
+	return path.basename(filePath, '.uc').toLowerCase();
+}
+
+function isPathInFolder(filePath: string, folderPath: string): boolean {
+	const relativePath = path.relative(folderPath, filePath);
+	return !!relativePath && !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+}
+
+function isSamePath(filePath: string, otherFilePath: string): boolean {
+	return path.relative(filePath, otherFilePath) === '';
+}
+
+function getFolderPathOf(filePath: string): string {
+	for (const folderPath of classesMapByFolderPath.keys()) {
+		if (folderPath && isPathInFolder(filePath, folderPath)) {
+			return folderPath;
+		}
+	}
+	return '';
+}
+
+/**
+ * Merges the classes of all workspace folders into @filePathByClassIdMap$.
+ * A class that is declared in multiple folders is mapped to the folder that has been added last,
+ * unless the folders are isolated, in which case the first folder keeps the class, see getUriById().
+ */
+export function mergeFolderClassesMaps() {
+	const classesMap = new Map<string, string>();
+	for (const folderClassesMap of classesMapByFolderPath.values()) {
+		for (const [classId, filePath] of folderClassesMap) {
+			if (config.isolateWorkspaceFolders && classesMap.has(classId)) {
+				continue;
+			}
+			classesMap.set(classId, filePath);
+		}
+	}
+	filePathByClassIdMap$.next(classesMap);
+}
+
+/**
+ * Sets the classes of a workspace folder, the changes have to be applied by mergeFolderClassesMaps().
+ */
+export function setFolderClassesMap(folderPath: string, classesMap: Map<string, string>) {
+	classesMapByFolderPath.set(folderPath, classesMap);
+}
+
+/**
+ * Adds the class file to the classes of its workspace folder, the changes have to be applied by mergeFolderClassesMaps().
+ */
+export function addClassFile(filePath: string) {
+	const folderPath = getFolderPathOf(filePath);
+	const classesMap = classesMapByFolderPath.get(folderPath) || new Map<string, string>();
+	classesMap.set(toClassId(filePath), filePath);
+	classesMapByFolderPath.set(folderPath, classesMap);
+}
+
+/**
+ * Removes the class file from the classes of its workspace folder, the changes have to be applied by mergeFolderClassesMaps().
+ */
+export function removeClassFile(filePath: string) {
+	const classesMap = classesMapByFolderPath.get(getFolderPathOf(filePath));
+	if (!classesMap) {
+		return;
+	}
+
+	const classId = toClassId(filePath);
+	const classFilePath = classesMap.get(classId);
+	if (classFilePath && isSamePath(classFilePath, filePath)) {
+		classesMap.delete(classId);
+	}
+}
+
+/**
+ * Removes a workspace folder along with its documents, packages, and classes.
+ * The changes to the classes have to be applied by mergeFolderClassesMaps().
+ * The documents of other folders that depend on the removed documents are emitted to @staleDocuments$.
+ * Returns the uris of the documents that have been removed.
+ */
+export function removeFolder(folderPath: string): string[] {
+	const removedUris: string[] = [];
+	const staleDocuments = new Set<UCDocument>();
+	for (const [uri, document] of documentByURIMap) {
+		if (isPathInFolder(URI.parse(uri).fsPath, folderPath)) {
+			for (const dependentDocument of getDependentDocuments(document)) {
+				staleDocuments.add(dependentDocument);
+			}
+			removeDocument(document);
+			removedUris.push(uri);
+		}
+	}
+
+	for (const [dir, pkg] of packageByDirMap) {
+		if (isPathInFolder(URI.parse(dir).fsPath, folderPath)) {
+			packageByDirMap.delete(dir);
+			if (PackagesTable.getSymbol(pkg.getId()) === pkg) {
+				PackagesTable.removeSymbol(pkg);
+			}
+		}
+	}
+
+	// The package may also be declared by another folder, which has been replaced by the removed package.
+	for (const pkg of packageByDirMap.values()) {
+		if (!PackagesTable.getSymbol(pkg.getId())) {
+			PackagesTable.addSymbol(pkg);
+		}
+	}
+
+	classesMapByFolderPath.delete(folderPath);
+
+	// The removed documents may depend on one another.
+	const dependentDocuments = Array
+		.from(staleDocuments)
+		.filter(document => documentByURIMap.has(document.filePath));
+	if (dependentDocuments.length) {
+		staleDocuments$.next(dependentDocuments);
+	}
+	return removedUris;
+}
+
+/**
+ * Removes a document and the symbols that it has declared e.g. when its file has been deleted.
+ */
+export function removeDocument(document: UCDocument) {
+	document.invalidate();
+	documentByURIMap.delete(document.filePath);
+}
+
 // let ClassCompletionItems: CompletionItem[] = [];
 
 // ClassIdToFilePathMap$.subscribe(classesMap => {
@@ -180,10 +395,61 @@ export function getDocumentById(id: string): UCDocument | undefined {
 // 		});
 // });
 
-export const IndexedReferencesMap = new Map<number, Set<ISymbolReference>>();
+/**
+ * Returns the key that identifies @symbol by its kind and full outer path e.g. "13:engine.actor.touch.other".
+ * Unlike getHash(), the key does not collide for locals and parameters that share their name with other symbols.
+ */
+export function getSymbolKey(symbol: ISymbol): string {
+	let path = symbol.getId().toString();
+	for (let outer = symbol.outer; outer; outer = outer.outer) {
+		path = outer.getId() + '.' + path;
+	}
+	return symbol.getKind() + ':' + path.toLowerCase();
+}
+
+export const IndexedReferencesMap = new Map<string, Set<ISymbolReference>>();
+
+export function getIndexedReferences(symbol: ISymbol) {
+	return IndexedReferencesMap.get(getSymbolKey(symbol));
+}
+
+/**
+ * Maps the uri of a document to the uris of the documents that depend on it,
+ * i.e. the documents that reference any of its symbols e.g. by extends, within, dependson, a type, or an object literal.
+ */
+const DependentsMap = new Map<string, Set<string>>();
+
+export function indexDependency(document: UCDocument, dependency: UCDocument) {
+	const dependents = DependentsMap.get(dependency.filePath) || new Set<string>();
+	dependents.add(document.filePath);
+	DependentsMap.set(dependency.filePath, dependents);
+}
 
-export function getIndexedReferences(hash: number) {
-	return IndexedReferencesMap.get(hash);
+export function removeDependency(document: UCDocument, dependencyUri: string) {
+	const dependents = DependentsMap.get(dependencyUri);
+	if (dependents) {
+		dependents.delete(document.filePath);
+	}
+}
+
+/**
+ * Returns the indexed documents that depend on @document directly.
+ * These documents may hold references to the symbols of @document that have since been replaced.
+ */
+export function getDependentDocuments(document: UCDocument): UCDocument[] {
+	const dependents = DependentsMap.get(document.filePath);
+	if (!dependents) {
+		return [];
+	}
+
+	const dependentDocuments: UCDocument[] = [];
+	for (const dependentUri of dependents) {
+		const dependentDocument = documentByURIMap.get(dependentUri);
+		if (dependentDocument && dependentDocument.hasBeenIndexed) {
+			dependentDocuments.push(dependentDocument);
+		}
+	}
+	return dependentDocuments;
 }
 
 const EnumMemberMap = new WeakMap<Name, UCEnumMemberSymbol>();
@@ -194,4 +460,41 @@ export function getEnumMember(enumName: Name): UCEnumMemberSymbol | undefined {
 
 export function setEnumMember(enumMember: UCEnumMemberSymbol) {
 	EnumMemberMap.set(enumMember.getId(), enumMember);
-}
\ No newline at end of file
+}
+
+/**
+ * Maps the key of a class, struct or state to the types that extend it, the reverse of the type's super.
+ */
+const SubtypesMap = new Map<string, Map<string, UCStructSymbol>>();
+
+/**
+ * Returns the key that identifies the type @symbol, including the uri of its document,
+ * so that the types of the same name in isolated workspace folders do not share their subtypes.
+ */
+function getSubtypeKey(symbol: UCStructSymbol): string {
+	return symbol.getUri() + '#' + getSymbolKey(symbol);
+}
+
+export function getSubtypes(symbol: UCStructSymbol): UCStructSymbol[] | undefined {
+	const subtypes = SubtypesMap.get(getSubtypeKey(symbol));
+	return subtypes && Array.from(subtypes.values());
+}
+
+export function indexSubtype(symbol: UCStructSymbol) {
+	if (!symbol.super) {
+		return;
+	}
+
+	const key = getSubtypeKey(symbol.super);
+	const subtypes = SubtypesMap.get(key) || new Map<string, UCStructSymbol>();
+	subtypes.set(getSubtypeKey(symbol), symbol);
+	SubtypesMap.set(key, subtypes);
+}
+
+export function removeSubtype(symbol: UCStructSymbol) {
+	const subtypes = symbol.super && SubtypesMap.get(getSubtypeKey(symbol.super));
+	const key = getSubtypeKey(symbol);
+	if (subtypes && subtypes.get(key) === symbol) {
+		subtypes.delete(key);
+	}
+}
@@ -0,0 +1,149 @@
+import { CompletionItem, CompletionItemKind, InsertTextFormat, MarkupKind } from 'vscode-languageserver';
+import { Interval } from 'antlr4ts/misc/Interval';
+
+import { UCPreprocessorParser, MacroProgramContext, MacroDefineContext, MacroUndefineContext } from '../antlr/UCPreprocessorParser';
+
+import { UCDocument } from './document';
+
+interface IMacro {
+	params?: string[];
+	text: string;
+}
+
+// The directives and predefined macros that are handled by the preprocessor itself.
+const BuiltinMacros: { name: string, snippet: string, documentation: string }[] = [
+	{ name: 'define', snippet: 'define ${1:name} ${2:text}', documentation: 'Defines a macro.' },
+	{ name: 'undefine', snippet: 'undefine(${1:name})', documentation: 'Removes a macro that has been defined.' },
+	{ name: 'include', snippet: 'include(${1:file})', documentation: 'Includes the text of a file e.g. `include(Engine\\Classes\\Foo.uci)' },
+	{ name: 'isdefined', snippet: 'isdefined(${1:name})', documentation: 'Expands to 1 if the macro has been defined.' },
+	{ name: 'notdefined', snippet: 'notdefined(${1:name})', documentation: 'Expands to 1 if the macro has not been defined.' },
+	{ name: 'if', snippet: 'if(`${1:condition})', documentation: 'Includes the text that follows if the condition is not empty.' },
+	{ name: 'elseif', snippet: 'elseif(`${1:condition})', documentation: 'Includes the text that follows if the condition is not empty, and no preceding branch has been included.' },
+	{ name: 'else', snippet: 'else', documentation: 'Includes the text that follows if no preceding branch has been included.' },
+	{ name: 'endif', snippet: 'endif', documentation: 'Ends an `if block.' },
+	{ name: 'counter', snippet: 'counter', documentation: 'Expands to the value of the counter.' },
+	{ name: 'getcounter', snippet: 'getcounter(${1:name})', documentation: 'Expands to the value of a named counter.' },
+	{ name: 'setcounter', snippet: 'setcounter(${1:name}, ${2:value})', documentation: 'Sets the value of a named counter.' },
+	{ name: '__LINE__', snippet: '__LINE__', documentation: 'Expands to the current line number.' },
+	{ name: '__FILE__', snippet: '__FILE__', documentation: 'Expands to the current file name.' }
+];
+
+function buildSnippet(name: string, params?: string[]): string {
+	return params && params.length
+		? `${name}(${params.map((param, i) => `\${${i + 1}:${param}}`).join(', ')})`
+		: name;
+}
+
+function toMacroItem(name: string, macro: IMacro): CompletionItem {
+	const params = macro.params ? `(${macro.params.join(', ')})` : '';
+	const text = macro.text.replace(/\\\r?\n/g, '\n').trim();
+	return {
+		label: name,
+		kind: CompletionItemKind.Constant,
+		detail: `\`define ${name}${params}`,
+		documentation: {
+			kind: MarkupKind.Markdown,
+			value: '```unrealscript\n' + text + '\n```'
+		},
+		insertText: buildSnippet(name, macro.params),
+		insertTextFormat: InsertTextFormat.Snippet
+	};
+}
+
+// Matches a `define, including its continued lines, or an `undefine.
+const MacroDirectivePattern = /`(?:define[ \t]+(\w+)(?:\(([^)\r\n]*)\))?((?:[^\r\n]*\\\r?\n)*[^\r\n]*)|undefine[ \t]*\([ \t]*(\w+)[ \t]*\))/gi;
+
+function getCommonPrefixLength(a: string, b: string): number {
+	const length = Math.min(a.length, b.length);
+	let i = 0;
+	while (i < length && a.charCodeAt(i) === b.charCodeAt(i)) {
+		++ i;
+	}
+	return i;
+}
+
+/**
+ * Applies the active defines and undefines of the document's last build that precede the end of @text,
+ * but only those that are within the part of the text that has not changed since.
+ * Returns the offset up to which the text has been covered.
+ */
+function applyBuiltMacros(macroTree: MacroProgramContext, text: string, macros: Map<string, IMacro>): number {
+	const stream = macroTree.start.inputStream;
+	if (!stream || text.length === 0) {
+		return 0;
+	}
+
+	const builtText = stream.getText(Interval.of(0, Math.min(stream.size, text.length) - 1));
+	const unchangedLength = getCommonPrefixLength(builtText, text);
+	let coveredOffset = 0;
+	for (const smNode of macroTree.macroStatement()) {
+		const stopIndex = (smNode.stop || smNode.start).stopIndex;
+		if (stopIndex >= unchangedLength) {
+			break;
+		}
+		coveredOffset = stopIndex + 1;
+
+		const macroCtx = smNode.macro();
+		if (!macroCtx.isActive) {
+			continue;
+		}
+
+		if (macroCtx instanceof MacroDefineContext) {
+			const name = macroCtx._MACRO_SYMBOL.text;
+			if (name) {
+				const params = macroCtx._args && macroCtx._args.MACRO_SYMBOL().map(node => node.text);
+				const macroText = macroCtx._MACRO_TEXT && macroCtx._MACRO_TEXT.text;
+				macros.set(name.toLowerCase(), { params, text: macroText || '...' });
+			}
+		} else if (macroCtx instanceof MacroUndefineContext) {
+			const name = macroCtx._MACRO_SYMBOL.text;
+			if (name) {
+				macros.delete(name.toLowerCase());
+			}
+		}
+	}
+	return coveredOffset;
+}
+
+/**
+ * Applies the defines and undefines that have been written since the last build, without regard to any `if branches.
+ */
+function applyWrittenMacros(text: string, macros: Map<string, IMacro>) {
+	MacroDirectivePattern.lastIndex = 0;
+	for (let match = MacroDirectivePattern.exec(text); match; match = MacroDirectivePattern.exec(text)) {
+		const [, name, params, macroText, undefinedName] = match;
+		if (name) {
+			macros.set(name.toLowerCase(), {
+				params: typeof params !== 'undefined' ? params.split(',').map(param => param.trim()).filter(Boolean) : undefined,
+				text: macroText.trim() || '...'
+			});
+		} else if (undefinedName) {
+			macros.delete(undefinedName.toLowerCase());
+		}
+	}
+}
+
+/**
+ * Completes the macros that are visible at the end of @text, i.e. the text of @document up to the cursor.
+ * The macros are taken from the document's last build, only the text that has been written since is scanned for macros.
+ */
+export function getVisibleMacroCompletionItems(document: UCDocument, text: string): CompletionItem[] {
+	const macros = new Map<string, IMacro>(UCPreprocessorParser.globalSymbols);
+	const coveredOffset = document.macroTree ? applyBuiltMacros(document.macroTree, text, macros) : 0;
+	applyWrittenMacros(text.substring(coveredOffset), macros);
+
+	const items = Array
+		.from(macros.entries())
+		.map(([name, macro]) => toMacroItem(name, macro));
+
+	for (const builtin of BuiltinMacros) {
+		items.push({
+			label: builtin.name,
+			kind: CompletionItemKind.Keyword,
+			documentation: builtin.documentation,
+			insertText: builtin.snippet,
+			insertTextFormat: InsertTextFormat.Snippet
+		});
+	}
+	return items;
+}
@@ -0,0 +1,52 @@
+import { expect } from 'chai';
+
+import { getModifierCompletionItems } from './modifierCompletion';
+import type { UCGeneration } from './indexer';
+
+// Only the type is imported, so that the test does not load the indexer and its parser.
+function getLabels(text: string, generation = '3'): string[] | undefined {
+	const items = getModifierCompletionItems(text, generation as UCGeneration);
+	return items && items.map(item => item.label);
+}
+
+describe('Modifier completion', () => {
+	it('completes class modifiers after the class header', () => {
+		const labels = getLabels('class Foo extends Actor\n\tnative\n\tconfig(Game)\n\t');
+		expect(labels).to.include('placeable');
+		expect(labels).to.include('implements');
+		expect(labels).to.not.include('native');
+		expect(labels).to.not.include('config');
+	});
+
+	it('does not complete at the extends clause', () => {
+		expect(getLabels('class Foo extends ')).to.be.undefined;
+	});
+
+	it('filters the modifiers by generation', () => {
+		const labels = getLabels('class Foo extends Actor ', '1');
+		expect(labels).to.include('localized');
+		expect(labels).to.not.include('placeable');
+	});
+
+	it('completes variable modifiers before the type', () => {
+		const labels = getLabels('var() private{private} edi');
+		expect(labels).to.include('editconst');
+		expect(labels).to.not.include('private');
+		expect(getLabels('var() int ')).to.be.undefined;
+	});
+
+	it('completes function and state modifiers', () => {
+		const labels = getLabels('var string A;\nsimulated ');
+		expect(labels).to.include('final');
+		expect(labels).to.include('state');
+		expect(labels).to.not.include('simulated');
+		expect(getLabels('simulated function ')).to.be.undefined;
+	});
+
+	it('completes parameter modifiers', () => {
+		const labels = getLabels('function Foo(optional int A, out ');
+		expect(labels).to.include('optional');
+		expect(labels).to.not.include('out');
+		expect(getLabels('function Foo(int ')).to.be.undefined;
+	});
+});
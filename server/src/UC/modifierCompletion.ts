@@ -0,0 +1,289 @@
+import { CompletionItem, CompletionItemKind, InsertTextFormat } from 'vscode-languageserver';
+
+import type { UCGeneration } from './indexer';
+
+interface IModifier {
+	name: string;
+	// The first generation to support the modifier e.g. 2 for UC2+
+	since: number;
+	// The last generation to support the modifier, if it has been removed.
+	until?: number;
+	// The snippet for a modifier with arguments e.g. "config(${1:Game})"
+	snippet?: string;
+	documentation: string;
+}
+
+const ClassModifiers: IModifier[] = [
+	{ name: 'native', since: 1, documentation: 'The class has a C++ implementation.' },
+	{ name: 'nativereplication', since: 1, documentation: 'The replication of the class is handled in C++.' },
+	{ name: 'localized', since: 1, until: 1, documentation: 'The default properties of the class can be localized.' },
+	{ name: 'abstract', since: 1, documentation: 'The class cannot be instantiated, only extended.' },
+	{ name: 'perobjectconfig', since: 1, documentation: 'The configuration is stored per object instead of per class.' },
+	{ name: 'transient', since: 1, documentation: 'Objects of the class are never saved to disk.' },
+	{ name: 'export', since: 1, documentation: 'Exports the class to a C++ header.' },
+	{ name: 'noexport', since: 1, documentation: 'The C++ declaration of the class is written by hand, rather than exported.' },
+	{ name: 'nousercreate', since: 1, documentation: 'Objects of the class cannot be placed by the user.' },
+	{ name: 'safereplace', since: 1, documentation: 'References to the class may be replaced by none when the class is missing.' },
+	{ name: 'config', since: 1, snippet: 'config(${1:Game})', documentation: 'The class can load and save its config variables to the named configuration file.' },
+	{ name: 'placeable', since: 2, documentation: 'The class can be placed in a level by the editor.' },
+	{ name: 'notplaceable', since: 2, documentation: 'The class, and its subclasses, cannot be placed in a level.' },
+	{ name: 'cacheexempt', since: 2, until: 2, documentation: 'The class is excluded from the cache of the game\'s UI lists.' },
+	{ name: 'hidedropdown', since: 2, documentation: 'The class is hidden from the class dropdowns of the editor.' },
+	{ name: 'exportstructs', since: 2, documentation: 'Exports the structs of the class to a C++ header.' },
+	{ name: 'instanced', since: 2, documentation: 'Objects of the class are instanced when referenced by a default property.' },
+	{ name: 'parseconfig', since: 2, documentation: 'The name of the configuration file is passed on the command line.' },
+	{ name: 'editinlinenew', since: 2, documentation: 'Objects of the class can be created inline by the editor.' },
+	{ name: 'noteditinlinenew', since: 2, documentation: 'Objects of the class cannot be created inline by the editor.' },
+	{ name: 'dependson', since: 2, snippet: 'dependson(${1:Class})', documentation: 'Compiles the given classes before this class.' },
+	{ name: 'collapsecategories', since: 2, documentation: 'The properties of the class are not grouped by category in the editor.' },
+	{ name: 'dontcollapsecategories', since: 2, documentation: 'The properties of the class are grouped by category in the editor.' },
+	{ name: 'showcategories', since: 2, snippet: 'showcategories(${1:Category})', documentation: 'Shows the given categories, which are hidden by a parent class, in the editor.' },
+	{ name: 'hidecategories', since: 2, snippet: 'hidecategories(${1:Category})', documentation: 'Hides the given categories in the editor.' },
+	{ name: 'guid', since: 2, snippet: 'guid(${1:A}, ${2:B}, ${3:C}, ${4:D})', documentation: 'The unique identifier of the class.' },
+	{ name: 'nativeonly', since: 3, documentation: 'The class is only compiled to C++, and is hidden from scripts.' },
+	{ name: 'nontransient', since: 3, documentation: 'Cancels the transient modifier that has been inherited.' },
+	{ name: 'perobjectlocalized', since: 3, documentation: 'The localization is stored per object instead of per class.' },
+	{ name: 'deprecated', since: 3, documentation: 'Objects of the class are no longer saved to disk.' },
+	{ name: 'classredirect', since: 3, snippet: 'classredirect(${1:Class})', documentation: 'Redirects the references to this class to the given class.' },
+	{ name: 'dllbind', since: 3, snippet: 'dllbind(${1:Library})', documentation: 'Binds the dllimport functions of the class to the given library.' },
+	{ name: 'implements', since: 3, snippet: 'implements(${1:Interface})', documentation: 'The class implements the given interfaces.' },
+	{ name: 'classgroup', since: 3, snippet: 'classgroup(${1:Group})', documentation: 'Groups the class in the actor browser of the editor.' },
+	{ name: 'autoexpandcategories', since: 3, snippet: 'autoexpandcategories(${1:Category})', documentation: 'Expands the given categories in the editor by default.' },
+	{ name: 'autocollapsecategories', since: 3, snippet: 'autocollapsecategories(${1:Category})', documentation: 'Collapses the given categories in the editor by default.' },
+	{ name: 'dontautocollapsecategories', since: 3, snippet: 'dontautocollapsecategories(${1:Category})', documentation: 'Cancels the autocollapsecategories modifier for the given categories.' },
+	{ name: 'dontsortcategories', since: 3, snippet: 'dontsortcategories(${1:Category})', documentation: 'Keeps the given categories in order of declaration in the editor.' },
+	{ name: 'inherits', since: 3, snippet: 'inherits(${1:Class})', documentation: 'Additional native classes that the C++ class inherits from.' },
+	{ name: 'forcescriptorder', since: 3, snippet: 'forcescriptorder(${1:true})', documentation: 'Keeps the properties in order of declaration in the editor.' }
+];
+
+const VariableModifiers: IModifier[] = [
+	{ name: 'localized', since: 1, documentation: 'The value is loaded from the localization file.' },
+	{ name: 'native', since: 1, documentation: 'The variable is serialized by C++.' },
+	{ name: 'const', since: 1, documentation: 'The value cannot be changed by scripts.' },
+	{ name: 'editconst', since: 1, documentation: 'The value is visible, but cannot be changed in the editor.' },
+	{ name: 'config', since: 1, documentation: 'The value is loaded from, and saved to, the configuration file of the class.' },
+	{ name: 'globalconfig', since: 1, documentation: 'The value is loaded from the configuration file of the class that declares the variable, even in subclasses.' },
+	{ name: 'transient', since: 1, documentation: 'The value is never saved to disk.' },
+	{ name: 'travel', since: 1, until: 2, documentation: 'The value is carried over when travelling to another level.' },
+	{ name: 'input', since: 1, documentation: 'The value can be set by the input system e.g. a bound axis.' },
+	{ name: 'private', since: 2, documentation: 'The variable is only accessible within the class that declares it.' },
+	{ name: 'protected', since: 2, documentation: 'The variable is only accessible within the class and its subclasses.' },
+	{ name: 'export', since: 2, documentation: 'The object that is referenced by the variable is exported along with its owner.' },
+	{ name: 'noexport', since: 2, documentation: 'The variable is excluded from the exported C++ header.' },
+	{ name: 'noimport', since: 2, documentation: 'The value is not imported when pasting text in the editor.' },
+	{ name: 'cache', since: 2, until: 2, documentation: 'The variable is cached in a native structure.' },
+	{ name: 'automated', since: 2, until: 2, documentation: 'The object is automatically created and linked by the GUI system.' },
+	{ name: 'editinline', since: 2, documentation: 'The properties of the referenced object can be edited inline in the editor.' },
+	{ name: 'editinlinenotify', since: 2, until: 2, documentation: 'Like editinline, but notifies the owner when the object is changed.' },
+	{ name: 'editinlineuse', since: 2, documentation: 'Like editinline, but also offers a "Use" button in the editor.' },
+	{ name: 'editconstarray', since: 2, documentation: 'The length of the array cannot be changed in the editor.' },
+	{ name: 'edfindable', since: 2, until: 2, documentation: 'The editor can reference actors that are in the level.' },
+	{ name: 'init', since: 3, documentation: 'The variable is exported to C++ as FString or TArray instead of FStringNoInit or TArrayNoInit.' },
+	{ name: 'edithide', since: 3, documentation: 'The variable is hidden in the editor.' },
+	{ name: 'editfixedsize', since: 3, documentation: 'The length of the dynamic array cannot be changed in the editor.' },
+	{ name: 'editoronly', since: 3, documentation: 'The value is only loaded when running the editor.' },
+	{ name: 'editortextbox', since: 3, documentation: 'The string is edited with a multi-line text box in the editor.' },
+	{ name: 'noclear', since: 3, documentation: 'The reference cannot be cleared to none in the editor.' },
+	{ name: 'serializetext', since: 3, documentation: 'The native variable is serialized when exported to text.' },
+	{ name: 'nontransactional', since: 3, documentation: 'Changes to the value are excluded from the undo history of the editor.' },
+	{ name: 'instanced', since: 3, documentation: 'The object that is assigned by the default properties is instanced per owner.' },
+	{ name: 'databinding', since: 3, documentation: 'The value can be set by the data store system.' },
+	{ name: 'duplicatetransient', since: 3, documentation: 'The value is reset when the object is duplicated.' },
+	{ name: 'repretry', since: 3, documentation: 'Retries the replication of the reference when it cannot be serialized yet.' },
+	{ name: 'repnotify', since: 3, documentation: 'Calls ReplicatedEvent when the value has been replicated.' },
+	{ name: 'interp', since: 3, documentation: 'The value can be animated by Matinee.' },
+	{ name: 'deprecated', since: 3, documentation: 'The value is loaded, but no longer saved.' },
+	{ name: 'notforconsole', since: 3, documentation: 'The value is only loaded on the PC.' },
+	{ name: 'archetype', since: 3, documentation: 'The reference is set to an archetype when the object is duplicated.' },
+	{ name: 'crosslevelactive', since: 3, documentation: 'The reference can point to an actor in another level, and is kept up to date.' },
+	{ name: 'crosslevelpassive', since: 3, documentation: 'The reference can point to an actor in another level.' },
+	{ name: 'allowabstract', since: 3, documentation: 'The editor can assign abstract classes to the class reference.' },
+	{ name: 'privatewrite', since: 3, documentation: 'The variable can be read from anywhere, but only written within the class that declares it.' },
+	{ name: 'protectedwrite', since: 3, documentation: 'The variable can be read from anywhere, but only written within the class and its subclasses.' },
+	{ name: 'public', since: 3, documentation: 'The variable is accessible from anywhere, the default.' }
+];
+
+const FunctionModifiers: IModifier[] = [
+	{ name: 'function', since: 1, documentation: 'Declares a function.' },
+	{ name: 'event', since: 1, documentation: 'Declares a function that can be called by C++.' },
+	{ name: 'simulated', since: 1, documentation: 'The function can be executed on the client side of an actor with a simulated role.' },
+	{ name: 'static', since: 1, documentation: 'The function can be called without an instance of the class.' },
+	{ name: 'exec', since: 1, documentation: 'The function can be executed from the console.' },
+	{ name: 'final', since: 1, documentation: 'The function cannot be overridden.' },
+	{ name: 'native', since: 1, documentation: 'The function has a C++ implementation.' },
+	{ name: 'latent', since: 1, documentation: 'The native function can only be called from state code, and returns after some time has passed.' },
+	{ name: 'singular', since: 1, documentation: 'The function cannot be called recursively.' },
+	{ name: 'iterator', since: 1, documentation: 'The native function can be used by a foreach statement.' },
+	{ name: 'operator', since: 1, snippet: 'operator(${1:16})', documentation: 'Declares a binary operator with the given precedence.' },
+	{ name: 'preoperator', since: 1, documentation: 'Declares a unary operator that precedes its operand.' },
+	{ name: 'postoperator', since: 1, documentation: 'Declares a unary operator that follows its operand.' },
+	{ name: 'private', since: 1, documentation: 'The function is only accessible within the class that declares it.' },
+	{ name: 'protected', since: 1, documentation: 'The function is only accessible within the class and its subclasses.' },
+	{ name: 'delegate', since: 2, documentation: 'Declares a function that can be assigned any function with the same signature.' },
+	{ name: 'public', since: 3, documentation: 'The function is accessible from anywhere, the default.' },
+	{ name: 'reliable', since: 3, documentation: 'The function is always replicated.' },
+	{ name: 'unreliable', since: 3, documentation: 'The function is replicated, but may be dropped when the bandwidth is saturated.' },
+	{ name: 'server', since: 3, documentation: 'The function is sent to the server when called on the client.' },
+	{ name: 'client', since: 3, documentation: 'The function is sent to the owning client when called on the server.' },
+	{ name: 'noexport', since: 3, documentation: 'The native function is excluded from the exported C++ header.' },
+	{ name: 'noexportheader', since: 3, documentation: 'The native function is excluded from the exported C++ header, but its thunk is still exported.' },
+	{ name: 'virtual', since: 3, documentation: 'The native function is exported as a virtual C++ function.' },
+	{ name: 'dllimport', since: 3, documentation: 'The function is imported from the library that is bound by the class.' },
+	{ name: 'demorecording', since: 3, documentation: 'The function is recorded when recording a demo.' },
+	{ name: 'coerce', since: 3, documentation: 'The returned object is cast to the type of the class argument.' }
+];
+
+const StructModifiers: IModifier[] = [
+	{ name: 'native', since: 2, documentation: 'The struct has a C++ declaration.' },
+	{ name: 'transient', since: 2, documentation: 'The struct is never saved to disk.' },
+	{ name: 'export', since: 2, documentation: 'Exports the struct to a C++ header.' },
+	{ name: 'init', since: 2, documentation: 'The struct is exported with a C++ constructor.' },
+	{ name: 'long', since: 2, documentation: 'The struct is displayed with its members expanded in the editor.' },
+	{ name: 'strictconfig', since: 3, documentation: 'Only the config members are loaded from the configuration file.' },
+	{ name: 'atomic', since: 3, documentation: 'The struct is always serialized as a whole.' },
+	{ name: 'atomicwhencooked', since: 3, documentation: 'The struct is serialized as a whole when cooked.' },
+	{ name: 'immutable', since: 3, documentation: 'The struct is always serialized in binary.' },
+	{ name: 'immutablewhencooked', since: 3, documentation: 'The struct is serialized in binary when cooked.' }
+];
+
+const StateModifiers: IModifier[] = [
+	{ name: 'auto', since: 1, documentation: 'The object starts in this state.' },
+	{ name: 'simulated', since: 1, documentation: 'The state code can be executed on the client side of an actor with a simulated role.' }
+];
+
+const ParamModifiers: IModifier[] = [
+	{ name: 'out', since: 1, documentation: 'The argument is passed by reference.' },
+	{ name: 'optional', since: 1, documentation: 'The argument can be omitted.' },
+	{ name: 'coerce', since: 1, documentation: 'The argument is converted to the type of the parameter, if possible.' },
+	{ name: 'skip', since: 1, documentation: 'The right side of the operator is skipped if the left side determines the result.' },
+	{ name: 'init', since: 3, documentation: 'The parameter is exported to C++ as FString or TArray instead of FStringNoInit or TArrayNoInit.' },
+	{ name: 'const', since: 3, documentation: 'The argument cannot be changed by the function.' }
+];
+
+// The specifiers that are followed by the return type and name of a function.
+const FUNCTION_KEYWORDS = ['function', 'event', 'delegate', 'operator', 'preoperator', 'postoperator'];
+
+function isModifierOf(modifiers: IModifier[], word: string): boolean {
+	return modifiers.some(modifier => modifier.name === word);
+}
+
+function isAvailable(modifier: IModifier, generation: number): boolean {
+	return generation >= modifier.since && (typeof modifier.until === 'undefined' || generation <= modifier.until);
+}
+
+/**
+ * Returns the text of the declaration that the cursor is at the end of, with its export blocks removed.
+ */
+function getDeclarationText(text: string): string {
+	const strippedText = text
+		// e.g. "struct {FVector} Vector" or "var public{protected} int X;"
+		.replace(/\b(struct|public|protected|protectedwrite|private|privatewrite)\s*\{[^{}]*\}/gi, '$1 ');
+	const boundary = Math.max(
+		strippedText.lastIndexOf(';'),
+		strippedText.lastIndexOf('{'),
+		strippedText.lastIndexOf('}')
+	);
+	return strippedText.substr(boundary + 1).replace(/^\s+/, '');
+}
+
+/**
+ * Returns the modifiers that can be written at the end of @declaration, excluding those that have already been written.
+ */
+function getApplicableModifiers(declaration: string): IModifier[] | undefined {
+	// e.g. "function Foo(optional out int Bar, " or "delegate Foo("
+	const paramsMatch = declaration.match(/^((\w+\s+)*)\w+\s*\(([^()]*,)?([^(),]*)$/);
+	if (paramsMatch) {
+		const specifiers = paramsMatch[1].trim().toLowerCase().split(/\s+/);
+		if (!specifiers.some(word => FUNCTION_KEYWORDS.includes(word))) {
+			return undefined;
+		}
+
+		const words = paramsMatch[4].replace(/^\s+/, '').toLowerCase().split(/\s+/);
+		words.pop();
+		return words.every(word => isModifierOf(ParamModifiers, word))
+			? ParamModifiers.filter(modifier => !words.includes(modifier.name))
+			: undefined;
+	}
+
+	// Skip the arguments of the modifiers that have been written e.g. "config(Game)".
+	const words = declaration
+		.replace(/\([^()]*\)/g, ' ')
+		.toLowerCase()
+		.split(/\s+/);
+	// The word that is being completed, if any.
+	words.pop();
+	if (!words.length) {
+		return undefined;
+	}
+
+	const [keyword] = words;
+	switch (keyword) {
+		case 'class': case 'interface': {
+			// The modifiers follow the name of the class, and its extends and within clauses.
+			const lastWord = words[words.length - 1];
+			if (words.length < 2 || ['extends', 'expands', 'within'].includes(lastWord)) {
+				return undefined;
+			}
+			return ClassModifiers.filter(modifier => !words.includes(modifier.name));
+		}
+
+		case 'var': {
+			const modifiers = words.slice(1);
+			return modifiers.every(word => isModifierOf(VariableModifiers, word))
+				? VariableModifiers.filter(modifier => !modifiers.includes(modifier.name))
+				: undefined;
+		}
+
+		case 'struct': {
+			const modifiers = words.slice(1);
+			return modifiers.every(word => isModifierOf(StructModifiers, word))
+				? StructModifiers.filter(modifier => !modifiers.includes(modifier.name))
+				: undefined;
+		}
+
+		default: {
+			if (words.some(word => FUNCTION_KEYWORDS.includes(word))) {
+				// Past the specifiers, i.e. at the return type or name of the function.
+				return undefined;
+			}
+
+			// e.g. "simulated " may precede either a function or a state.
+			const modifiers: IModifier[] = [];
+			if (words.every(word => isModifierOf(FunctionModifiers, word))) {
+				modifiers.push(...FunctionModifiers);
+			}
+
+			if (words.every(word => isModifierOf(StateModifiers, word))) {
+				modifiers.push(...StateModifiers.filter(modifier => !isModifierOf(modifiers, modifier.name)));
+				modifiers.push({ name: 'state', since: 1, documentation: 'Declares a state.' });
+			}
+			return modifiers.length
+				? modifiers.filter(modifier => !words.includes(modifier.name))
+				: undefined;
+		}
+	}
+}
+
+/**
+ * Completes the modifiers of the class, variable, function, state, struct, or parameter declaration
+ * that is being written at the end of @text, i.e. the code of a document up to the cursor.
+ * The comments and the content of literals must have been removed from @text, see getCodeText in helpers.
+ * The modifiers are filtered by the generation of UnrealScript.
+ */
+export function getModifierCompletionItems(text: string, generation: UCGeneration): CompletionItem[] | undefined {
+	const modifiers = getApplicableModifiers(getDeclarationText(text));
+	if (!modifiers) {
+		return undefined;
+	}
+
+	const generationNumber = Number(generation);
+	return modifiers
+		.filter(modifier => isAvailable(modifier, generationNumber))
+		.map(modifier => ({
+			label: modifier.name,
+			kind: CompletionItemKind.Keyword,
+			documentation: modifier.documentation,
+			insertText: modifier.snippet,
+			insertTextFormat: modifier.snippet ? InsertTextFormat.Snippet : undefined
+		}));
+}
@@ -0,0 +1,50 @@
+import * as path from 'path';
+import { expect } from 'chai';
+
+import { UCDocument } from './document';
+import { TRANSIENT_PACKAGE, UCClassSymbol, UCMethodSymbol, UCSymbol } from './Symbols';
+import { queuIndexDocument, getIndexedReferences, getSymbolKey } from './indexer';
+import { toName } from './names';
+
+const CLASSES_DIR = path.resolve(__dirname, '../../../grammars/examples/Classes');
+const SHADOWING_PATH = path.join(CLASSES_DIR, 'ShadowingTest.uc');
+
+function getReferenceLines(symbol: UCSymbol): number[] {
+	const references = getIndexedReferences(symbol);
+	return references
+		? Array.from(references.values()).map(ref => ref.location.range.start.line).sort((a, b) => a - b)
+		: [];
+}
+
+describe('References with shadowing', () => {
+	const document = new UCDocument(SHADOWING_PATH, TRANSIENT_PACKAGE);
+	queuIndexDocument(document);
+
+	const classSymbol = document.class as UCClassSymbol;
+	const property = classSymbol.getSymbol(toName('Value'))!;
+	const getValue = classSymbol.getSymbol(toName('GetValue')) as UCMethodSymbol;
+	const param = getValue.getSymbol(toName('Value'))!;
+	const fooCount = (classSymbol.getSymbol(toName('Foo')) as UCMethodSymbol).getSymbol(toName('Count'))!;
+	const barCount = (classSymbol.getSymbol(toName('Bar')) as UCMethodSymbol).getSymbol(toName('Count'))!;
+
+	it('a parameter and the property it shadows have distinct keys', () => {
+		expect(getSymbolKey(param)).to.not.equal(getSymbolKey(property));
+	});
+
+	it('same-named locals in different functions have distinct keys', () => {
+		expect(getSymbolKey(fooCount)).to.not.equal(getSymbolKey(barCount));
+	});
+
+	it('the shadowing parameter is only referenced within its function', () => {
+		expect(getReferenceLines(param)).to.deep.equal([4, 6]);
+	});
+
+	it('the shadowed property is not referenced by the parameter', () => {
+		expect(getReferenceLines(property)).to.deep.equal([2, 13]);
+	});
+
+	it('each local is only referenced within its own function', () => {
+		expect(getReferenceLines(fooCount)).to.deep.equal([11, 13, 14]);
+		expect(getReferenceLines(barCount)).to.deep.equal([19, 21, 22]);
+	});
+});
@@ -22,6 +22,10 @@ export class UCExpressionStatement implements IStatement {
 
 	}
 
+	getRange(): Range {
+		return this.range;
+	}
+
 	getSymbolAtPos(position: Position): ISymbol | undefined {
 		if (!intersectsWith(this.range, position)) {
 			return undefined;
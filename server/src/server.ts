@@ -1,13 +1,12 @@
 import * as path from 'path';
 import * as glob from 'glob';
 
-import { interval, Subject } from 'rxjs';
-import { debounce, map, switchMapTo, filter, delay } from 'rxjs/operators';
+import { interval, Subject, from, of } from 'rxjs';
+import { debounce, switchMapTo, filter, delay, switchMap, concatMap, first } from 'rxjs/operators';
 
 import {
 	createConnection,
 	TextDocuments,
-	TextDocument,
 	ProposedFeatures,
 	InitializeParams,
 	WorkspaceFolder,
@@ -17,15 +16,29 @@ import {
 	ErrorCodes,
 	Location,
 	SymbolKind,
-	CompletionTriggerKind
-} from 'vscode-languageserver';
+	CompletionTriggerKind,
+	TextDocumentSyncKind,
+	SemanticTokensBuilder,
+	SemanticTokensRefreshRequest,
+	CodeLensRefreshRequest,
+	CodeActionKind,
+	ResourceOperationKind,
+	FileChangeType,
+	Range
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
 import { URI } from 'vscode-uri';
 
-import { getCompletableSymbolItems, getSymbolReferences, getSymbolDefinition, getSymbols, getSymbolTooltip, getSymbolHighlights, getFullCompletionItem } from './UC/helpers';
-import { filePathByClassIdMap$, getDocumentByUri, queuIndexDocument, getIndexedReferences, config, defaultSettings, lastIndexedDocuments$, getDocumentById, applyMacroSymbols } from './UC/indexer';
+import { getCompletableSymbolItems, getSymbolReferences, getSymbolDefinition, getSymbols, getSymbolTooltip, getSymbolHighlights, getFullCompletionItem, getSemanticTokens, getSemanticTokensDelta, getSignatureHelp, getFormattingEdits, getFoldingRanges, getWorkspaceSymbols, getSymbolImplementations, prepareTypeHierarchy, getTypeHierarchySupertypes, getTypeHierarchySubtypes, prepareCallHierarchy, getIncomingCalls, getOutgoingCalls, getInlayHints, getCodeLenses, resolveCodeLens, getDocumentLinks, renameClass, indexDeclarationsOnlyDocuments, indexPendingDocuments, getOverrideCompletionItems, getDefaultsCompletionItems, getMacroCompletionItems, getModifierKeywordItems } from './UC/helpers';
+import { UCDocument } from './UC/document';
+import { TokensLegend } from './UC/documentSemanticsBuilder';
+import { createCodeActions } from './UC/diagnostics/codeFix';
+import { filePathByClassIdMap$, getDocumentByUri, queuIndexDocument, getIndexedReferences, config, defaultSettings, lastIndexedDocuments$, getDocumentById, applyMacroSymbols, documentByURIMap, removeDocument, setFolderClassesMap, mergeFolderClassesMaps, removeFolder, addClassFile, removeClassFile, getDependentDocuments, staleDocuments$, relinkDocument } from './UC/indexer';
 import { ServerSettings, EAnalyzeOption } from './settings';
-import { UCClassSymbol, UCFieldSymbol, DEFAULT_RANGE, UCSymbol, PackagesTable, UCObjectTypeSymbol, UCTypeKind, UCPackage } from './UC/Symbols';
+import { UCClassSymbol, UCDocumentClassSymbol, UCFieldSymbol, DEFAULT_RANGE, UCSymbol, PackagesTable, UCObjectTypeSymbol, UCTypeKind, UCPackage } from './UC/Symbols';
 import { toName } from './UC/names';
+import { readIndexCache, writeIndexCache, restoreDocumentsFromCache } from './UC/indexCache';
+import { buildDocumentsInWorkers } from './UC/indexWorkerPool';
 
 /** Emits true when the workspace is prepared and ready for indexing. */
 const isIndexReady$ = new Subject<boolean>();
@@ -33,32 +46,102 @@ const isIndexReady$ = new Subject<boolean>();
 /** Emits a document that is pending an update. */
 const pendingTextDocuments$ = new Subject<{ textDocument: TextDocument, isDirty: boolean }>();
 
-const textDocuments: TextDocuments = new TextDocuments();
+/** Emits when the dependents of a changed document have been queued for re-linking. */
+const dependentDocuments$ = new Subject<void>();
+
+/** The documents that depend on a changed document, and have yet to be re-linked. */
+const pendingDependentDocuments = new Set<UCDocument>();
+
+const textDocuments: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
+
+/** The version of each open document that has last been indexed. */
+const indexedVersionByUri = new Map<string, number>();
+
+/** The last semantic tokens result per document uri, required to compute the deltas. */
+const semanticTokensBuilders = new Map<string, SemanticTokensBuilder>();
 
 let hasWorkspaceFolderCapability = false;
+let hasSemanticTokensRefreshCapability = false;
+let hasInlayHintRefreshCapability = false;
+let hasCodeLensRefreshCapability = false;
+let hasRenameFileCapability = false;
 let currentSettings: ServerSettings = defaultSettings;
+/** The workspace storage, where the index cache is kept, as passed by the client. */
+let storagePath: string | undefined;
 
 export const connection = createConnection(ProposedFeatures.all);
 
 connection.onInitialize((params: InitializeParams) => {
 	const capabilities = params.capabilities;
+	storagePath = params.initializationOptions && params.initializationOptions.storagePath;
 
 	hasWorkspaceFolderCapability = !!(capabilities.workspace && !!capabilities.workspace.workspaceFolders);
+	hasSemanticTokensRefreshCapability = !!(capabilities.workspace
+		&& capabilities.workspace.semanticTokens
+		&& capabilities.workspace.semanticTokens.refreshSupport);
+	hasInlayHintRefreshCapability = !!(capabilities.workspace
+		&& capabilities.workspace.inlayHint
+		&& capabilities.workspace.inlayHint.refreshSupport);
+	hasCodeLensRefreshCapability = !!(capabilities.workspace
+		&& capabilities.workspace.codeLens
+		&& capabilities.workspace.codeLens.refreshSupport);
+	hasRenameFileCapability = !!(capabilities.workspace
+		&& capabilities.workspace.workspaceEdit
+		&& capabilities.workspace.workspaceEdit.documentChanges
+		&& capabilities.workspace.workspaceEdit.resourceOperations
+		&& capabilities.workspace.workspaceEdit.resourceOperations.includes(ResourceOperationKind.Rename));
 
 	return {
 		capabilities: {
-			textDocumentSync: textDocuments.syncKind,
+			textDocumentSync: TextDocumentSyncKind.Full,
 			hoverProvider: true,
 			completionProvider: {
 				triggerCharacters: ['.', '(', '[', ',', '<', '`'],
 				resolveProvider: true
 			},
+			signatureHelpProvider: {
+				triggerCharacters: ['(', ',']
+			},
 			definitionProvider: true,
 			documentSymbolProvider: true,
 			documentHighlightProvider: true,
 			referencesProvider: true,
 			renameProvider: {
 				prepareProvider: true
+			},
+			codeActionProvider: {
+				codeActionKinds: [CodeActionKind.QuickFix]
+			},
+			workspaceSymbolProvider: true,
+			implementationProvider: true,
+			typeHierarchyProvider: true,
+			callHierarchyProvider: true,
+			inlayHintProvider: true,
+			codeLensProvider: {
+				resolveProvider: true
+			},
+			foldingRangeProvider: true,
+			documentLinkProvider: {
+				resolveProvider: false
+			},
+			documentFormattingProvider: true,
+			documentRangeFormattingProvider: true,
+			documentOnTypeFormattingProvider: {
+				firstTriggerCharacter: '}',
+				moreTriggerCharacter: [';']
+			},
+			semanticTokensProvider: {
+				legend: TokensLegend,
+				full: {
+					delta: true
+				}
+			},
+			workspace: {
+				fileOperations: {
+					didRename: {
+						filters: [{ pattern: { glob: '**/*.{uc,uci}', options: { ignoreCase: true } } }]
+					}
+				}
 			}
 		}
 	};
@@ -66,38 +149,50 @@ connection.onInitialize((params: InitializeParams) => {
 
 connection.onInitialized(async () => {
 
-	async function buildClassesMapFromFolders(folders: WorkspaceFolder[]) {
+	async function buildClassesMapFromFolder(folderPath: string) {
 		const pathsMap = new Map<string, string>();
+		try {
+			const files = glob.sync(path.join(folderPath, "**/+(*.uc|*.uci)"));
+			for (const file of files) {
+				pathsMap.set(path.basename(file, '.uc').toLowerCase(), file);
+			}
+		} catch (exc) {
+			connection.console.error(exc.toString());
+		}
+		return pathsMap;
+	}
 
+	async function addWorkspaceFolders(folders: WorkspaceFolder[]) {
 		for (const folder of folders) {
 			const folderPath = URI.parse(folder.uri).fsPath;
-			try {
-				const files = glob.sync(path.join(folderPath, "**/+(*.uc|*.uci)"));
-				for (const file of files) {
-					pathsMap.set(path.basename(file, '.uc').toLowerCase(), file);
-				}
-			} catch (exc) {
-				connection.console.error(exc.toString());
-			}
+			setFolderClassesMap(folderPath, await buildClassesMapFromFolder(folderPath));
 		}
-		return pathsMap;
 	}
 
 	if (hasWorkspaceFolderCapability) {
 		const folders = await connection.workspace.getWorkspaceFolders();
 		if (folders) {
-			const map = await buildClassesMapFromFolders(folders);
-			filePathByClassIdMap$.next(map);
+			await addWorkspaceFolders(folders);
+			mergeFolderClassesMaps();
 		} else {
 			connection.console.warn("No workspace folders!");
 		}
 
 		connection.workspace.onDidChangeWorkspaceFolders(async (e) => {
-			const folders = e.added;
-			if (folders.length > 0) {
-				const classesFilePathsMap = await buildClassesMapFromFolders(folders);
-				const mergedMap = new Map<string, string>([...filePathByClassIdMap$.getValue(), ...classesFilePathsMap]);
-				filePathByClassIdMap$.next(mergedMap);
+			for (const folder of e.removed) {
+				const removedUris = removeFolder(URI.parse(folder.uri).fsPath);
+				for (const uri of removedUris) {
+					connection.sendDiagnostics({ uri, diagnostics: [] });
+				}
+			}
+
+			await addWorkspaceFolders(e.added);
+			if (e.added.length > 0 || e.removed.length > 0) {
+				mergeFolderClassesMaps();
+			}
+
+			if (e.added.length > 0 && currentSettings.unrealscript.indexAllDocuments) {
+				await queueIndexClassDocuments();
 			}
 		});
 	}
@@ -111,7 +206,7 @@ connection.onInitialized(async () => {
 			for (const document of documents) {
 				if (currentSettings.unrealscript.analyzeDocuments === EAnalyzeOption.OnlyActive) {
 					if (!textDocuments.get(URI.parse(document.filePath).toString())) {
-						return;
+						continue;
 					}
 				}
 				// Only analyze active documents.
@@ -123,38 +218,58 @@ connection.onInitialized(async () => {
 			}
 		}, (error) => connection.console.error(error));
 
+	// Our tokens, hints and lenses depend on the resolved references, which may change when any dependency has been (re-)indexed.
+	lastIndexedDocuments$
+		.pipe(debounce(() => interval(50)))
+		.subscribe(() => {
+			if (hasSemanticTokensRefreshCapability) {
+				connection.sendRequest(SemanticTokensRefreshRequest.type);
+			}
+
+			if (hasInlayHintRefreshCapability) {
+				connection.languages.inlayHint.refresh();
+			}
+
+			if (hasCodeLensRefreshCapability) {
+				connection.sendRequest(CodeLensRefreshRequest.type);
+			}
+		}, (error) => connection.console.error(error));
+
 	isIndexReady$
 		.pipe(
 			filter((value) => !!value),
 			switchMapTo(pendingTextDocuments$),
 			debounce(() => interval(50))
 		)
-		.subscribe(({ textDocument, isDirty }) => {
-			const document = getDocumentByUri(textDocument.uri);
-			console.assert(document, 'Failed to fetch document at: ' + textDocument.uri);
+		.subscribe(({ textDocument, isDirty }) => indexTextDocument(textDocument, isDirty),
+			(error) => connection.console.error(error));
 
-			if (isDirty) {
-				document.invalidate();
-			}
+	// Re-link the dependents one at a time, so that a new change can cancel the remainder, which will be picked up by the next run.
+	dependentDocuments$
+		.pipe(
+			debounce(() => interval(500)),
+			switchMap(() => from(Array.from(pendingDependentDocuments))
+				.pipe(concatMap(document => of(document).pipe(delay(0))))
+			)
+		)
+		.subscribe(document => {
+			pendingDependentDocuments.delete(document);
 
-			if (!document.hasBeenIndexed) {
-				queuIndexDocument(document, textDocument.getText());
+			// May have been removed, or invalidated to be indexed again, in the meantime.
+			if (document.hasBeenIndexed) {
+				relinkDocument(document);
 			}
 		}, (error) => connection.console.error(error));
 
+	staleDocuments$.subscribe(queueStaleDocuments, (error) => connection.console.error(error));
+
 	filePathByClassIdMap$
 		.pipe(
 			filter(classesMap => classesMap.size > 0),
-			map((classesMap) => {
-				return Array
-					.from(classesMap.values())
-					.map(filePath => {
-						const uri = URI.file(filePath).toString();
-						return uri;
-					});
-			})
+			// The classes that are added later on are indexed by the handler that has added them i.e. by a workspace folder or a created file.
+			first()
 		)
-		.subscribe(((classes) => {
+		.subscribe((async () => {
 			// TODO: does not respect multiple globals.uci files
 			const globalUci = getDocumentById('globals.uci');
 			if (globalUci) {
@@ -162,20 +277,7 @@ connection.onInitialized(async () => {
 			}
 
 			if (currentSettings.unrealscript.indexAllDocuments) {
-				const indexStartTime = Date.now();
-				connection.window.showInformationMessage('Indexing UnrealScript classes!');
-
-				const documents = classes.map(uri => getDocumentByUri(uri));
-				documents.forEach(document => {
-					if (document.hasBeenIndexed) {
-						return;
-					}
-
-					queuIndexDocument(document);
-				});
-
-				const time = Date.now() - indexStartTime;
-				connection.window.showInformationMessage('UnrealScript classes have been indexed in ' + new Date(time).getSeconds() + ' seconds!');
+				await queueIndexClassDocuments();
 			} else {
 				const openDocuments = textDocuments.all();
 				openDocuments.forEach(doc => {
@@ -190,10 +292,63 @@ connection.onInitialized(async () => {
 	);
 });
 
+/** The last run of indexClassDocuments(), a run waits for the previous run to complete, so that the runs never overlap. */
+let lastClassesIndexRun: Promise<void> = Promise.resolve();
+
+function queueIndexClassDocuments(): Promise<void> {
+	const run = lastClassesIndexRun.then(indexClassDocuments);
+	lastClassesIndexRun = run.catch((error) => connection.console.error(error));
+	return run;
+}
+
+/**
+ * Indexes all the classes of the workspace that haven't been indexed yet e.g. at startup, or when a workspace folder has been added.
+ * The declarations are restored from the index cache if possible, the remaining documents are built in the workers, or on the main thread if the pool has been disabled.
+ */
+async function indexClassDocuments() {
+	const documents = Array
+		.from(filePathByClassIdMap$.getValue().values())
+		.map(filePath => getDocumentByUri(URI.file(filePath).toString()));
+	const unindexedDocuments = documents.filter(document => !document.hasBeenIndexed);
+	if (unindexedDocuments.length === 0) {
+		return;
+	}
+
+	const indexStartTime = Date.now();
+	connection.window.showInformationMessage('Indexing UnrealScript classes!');
+
+	const indexCache = storagePath ? readIndexCache(storagePath) : undefined;
+	const pendingDocuments = indexCache ? restoreDocumentsFromCache(unindexedDocuments, indexCache) : unindexedDocuments;
+	await buildDocumentsInWorkers(pendingDocuments.filter(document => !document.hasBeenIndexed));
+
+	// Any document that could not be built in a worker, or all of them if the pool has been disabled.
+	await indexPendingDocuments(pendingDocuments);
+
+	if (storagePath) {
+		// The declarations of a document that has been indexed from its unsaved text do not match the file that is cached.
+		writeIndexCache(storagePath, documents.filter(document => !hasUnsavedChanges(document)), indexCache);
+	}
+
+	const time = Date.now() - indexStartTime;
+	connection.window.showInformationMessage('UnrealScript classes have been indexed in ' + new Date(time).getSeconds() + ' seconds!');
+}
+
+/**
+ * Whether the open text of @document differs from its file e.g. when the editor has restored the unsaved changes of a previous session.
+ */
+function hasUnsavedChanges(document: UCDocument): boolean {
+	const textDocument = textDocuments.get(document.filePath);
+	return !!textDocument && textDocument.getText() !== document.readText();
+}
+
 connection.onDidChangeConfiguration((change) => {
 	currentSettings = <ServerSettings>(change.settings);
 
+	const isolateWorkspaceFolders = config.isolateWorkspaceFolders;
 	Object.assign(config, currentSettings.unrealscript);
+	if (config.isolateWorkspaceFolders !== isolateWorkspaceFolders) {
+		mergeFolderClassesMaps();
+	}
 	applyMacroSymbols(config.macroSymbols);
 
 	const intSymbols = Object.entries(config.intrinsicSymbols);
@@ -219,11 +374,160 @@ connection.onDidChangeConfiguration((change) => {
 	isIndexReady$.next(true);
 });
 
+// The files that have been created, deleted, or changed outside of the editor.
+connection.onDidChangeWatchedFiles((e) => {
+	let hasClassesChanged = false;
+	const createdUris: string[] = [];
+	for (const change of e.changes) {
+		const filePath = URI.parse(change.uri).fsPath;
+		if (!isScriptFile(filePath)) {
+			continue;
+		}
+
+		switch (change.type) {
+			case FileChangeType.Created: {
+				addClassFile(filePath);
+				createdUris.push(change.uri);
+				hasClassesChanged = true;
+				break;
+			}
+
+			case FileChangeType.Deleted: {
+				removeScriptFile(change.uri);
+				hasClassesChanged = true;
+				break;
+			}
+
+			case FileChangeType.Changed: {
+				// The open documents are kept in sync by the editor instead.
+				if (textDocuments.get(change.uri)) {
+					break;
+				}
+
+				const document = documentByURIMap.get(change.uri);
+				if (document && document.hasBeenIndexed) {
+					document.invalidate();
+					queuIndexDocument(document);
+					queueDependentDocuments(document);
+				}
+				break;
+			}
+		}
+	}
+
+	if (hasClassesChanged) {
+		mergeFolderClassesMaps();
+	}
+	indexCreatedDocuments(createdUris);
+});
+
+// The files that have been renamed by the editor, including a class file that has been renamed by renameClass().
+// Unlike the file watcher, this is sent once the rename has been applied, and regardless of the watched files.
+connection.workspace.onDidRenameFiles((e) => {
+	const createdUris: string[] = [];
+	for (const file of e.files) {
+		const oldFilePath = URI.parse(file.oldUri).fsPath;
+		if (isScriptFile(oldFilePath)) {
+			removeScriptFile(file.oldUri);
+		}
+
+		const newFilePath = URI.parse(file.newUri).fsPath;
+		if (isScriptFile(newFilePath)) {
+			addClassFile(newFilePath);
+			createdUris.push(file.newUri);
+		}
+	}
+
+	mergeFolderClassesMaps();
+	indexCreatedDocuments(createdUris);
+});
+
+function isScriptFile(filePath: string): boolean {
+	const extension = path.extname(filePath).toLowerCase();
+	return extension === '.uc' || extension === '.uci';
+}
+
+/**
+ * Removes the document and class of a file that has been deleted or moved, the changes to the classes have to be applied by mergeFolderClassesMaps().
+ */
+function removeScriptFile(uri: string) {
+	const document = documentByURIMap.get(uri);
+	if (document) {
+		queueDependentDocuments(document);
+		removeDocument(document);
+	}
+
+	removeClassFile(URI.parse(uri).fsPath);
+	connection.sendDiagnostics({ uri, diagnostics: [] });
+}
+
+function indexCreatedDocuments(uris: string[]) {
+	// Unlike a workspace folder, a few files can be indexed right away, without the index cache and workers.
+	if (currentSettings.unrealscript.indexAllDocuments) {
+		for (const uri of uris) {
+			const document = getDocumentByUri(uri);
+			if (!document.hasBeenIndexed) {
+				queuIndexDocument(document);
+			}
+		}
+	}
+}
+
+/**
+ * Indexes the text of an open document, unless this version has already been indexed e.g. by a request that couldn't wait for the debounce.
+ */
+function indexTextDocument(textDocument: TextDocument, isDirty: boolean) {
+	if (isDirty && indexedVersionByUri.get(textDocument.uri) === textDocument.version) {
+		return;
+	}
+
+	const document = getDocumentByUri(textDocument.uri);
+	console.assert(document, 'Failed to fetch document at: ' + textDocument.uri);
+
+	// A restored document only contains the declarations, thus it has to be parsed when opened.
+	if (isDirty || document.hasDeclarationsOnly) {
+		document.invalidate();
+	}
+
+	if (!document.hasBeenIndexed) {
+		queuIndexDocument(document, textDocument.getText());
+	}
+	indexedVersionByUri.set(textDocument.uri, textDocument.version);
+
+	if (isDirty) {
+		queueDependentDocuments(document);
+	}
+}
+
+/**
+ * Queues the documents that depend on @document to be re-linked in the background,
+ * because these may still be linked to the symbols of @document that have since been removed or replaced.
+ */
+function queueDependentDocuments(document: UCDocument) {
+	queueStaleDocuments(getDependentDocuments(document));
+}
+
+function queueStaleDocuments(documents: UCDocument[]) {
+	if (documents.length === 0) {
+		return;
+	}
+
+	for (const document of documents) {
+		pendingDependentDocuments.add(document);
+	}
+	dependentDocuments$.next();
+}
+
 textDocuments.onDidOpen(e => pendingTextDocuments$.next({ textDocument: e.document, isDirty: false }));
 textDocuments.onDidChangeContent(e => pendingTextDocuments$.next({ textDocument: e.document, isDirty: true }));
+textDocuments.onDidClose(e => {
+	semanticTokensBuilders.delete(e.document.uri);
+	indexedVersionByUri.delete(e.document.uri);
+});
 textDocuments.listen(connection);
 
 connection.onDocumentSymbol((e) => getSymbols(e.textDocument.uri));
+connection.onWorkspaceSymbol((e) => getWorkspaceSymbols(e.query));
 connection.onHover((e)=> getSymbolTooltip(e.textDocument.uri, e.position));
 
 connection.onDefinition(async (e)=> {
@@ -239,10 +543,38 @@ connection.onDefinition(async (e)=> {
 	return undefined;
 });
 
+connection.onImplementation((e) => getSymbolImplementations(e.textDocument.uri, e.position));
+connection.languages.typeHierarchy.onPrepare((e) => prepareTypeHierarchy(e.textDocument.uri, e.position));
+connection.languages.typeHierarchy.onSupertypes((e) => getTypeHierarchySupertypes(e.item));
+connection.languages.typeHierarchy.onSubtypes((e) => getTypeHierarchySubtypes(e.item));
+connection.languages.callHierarchy.onPrepare((e) => prepareCallHierarchy(e.textDocument.uri, e.position));
+connection.languages.callHierarchy.onIncomingCalls((e) => getIncomingCalls(e.item));
+connection.languages.callHierarchy.onOutgoingCalls((e) => getOutgoingCalls(e.item));
+connection.onCodeLens((e) => getCodeLenses(e.textDocument.uri));
+connection.onCodeLensResolve((lens) => resolveCodeLens(lens));
 connection.onReferences((e) => getSymbolReferences(e.textDocument.uri, e.position));
 connection.onDocumentHighlight((e) => getSymbolHighlights(e.textDocument.uri, e.position));
 
 connection.onCompletion(async (e) => {
+	const textDocument = textDocuments.get(e.textDocument.uri);
+	const macroItems = textDocument && await getMacroCompletionItems(textDocument, e.position);
+	if (macroItems) {
+		return macroItems;
+	}
+
+	const overrideItems = textDocument && await getOverrideCompletionItems(textDocument, e.position);
+	if (overrideItems) {
+		return overrideItems;
+	}
+
+	const defaultsItems = textDocument && await getDefaultsCompletionItems(textDocument, e.position);
+	if (defaultsItems) {
+		return defaultsItems;
+	}
+
+	// The modifiers are offered alongside the types that may follow them.
+	const modifierItems = textDocument && await getModifierKeywordItems(textDocument, e.position);
+
 	let context = '';
 	let position = e.position;
 	if (e.context && e.context.triggerKind <= CompletionTriggerKind.TriggerCharacter) {
@@ -298,10 +630,87 @@ connection.onCompletion(async (e) => {
 			break;
 		}
 	}
-	return getCompletableSymbolItems(e.textDocument.uri, position, context);
+	const items = await getCompletableSymbolItems(e.textDocument.uri, position, context);
+	return modifierItems ? modifierItems.concat(items || []) : items;
 });
 connection.onCompletionResolve(getFullCompletionItem);
 
+connection.onSignatureHelp((e) => {
+	const textDocument = textDocuments.get(e.textDocument.uri);
+	if (!textDocument) {
+		return undefined;
+	}
+
+	// Signature help is requested as soon as a '(' or ',' is typed, thus before the debounced indexing has picked up the change.
+	const document = getDocumentByUri(textDocument.uri);
+	if (document && document.hasBeenIndexed) {
+		indexTextDocument(textDocument, true);
+	}
+	return getSignatureHelp(textDocument, e.position);
+});
+
+function getSemanticTokensBuilder(uri: string): SemanticTokensBuilder {
+	let builder = semanticTokensBuilders.get(uri);
+	if (!builder) {
+		builder = new SemanticTokensBuilder();
+		semanticTokensBuilders.set(uri, builder);
+	}
+	return builder;
+}
+
+connection.languages.semanticTokens.on((e) => getSemanticTokens(e.textDocument.uri, getSemanticTokensBuilder(e.textDocument.uri)));
+connection.languages.semanticTokens.onDelta((e) => getSemanticTokensDelta(e.textDocument.uri, getSemanticTokensBuilder(e.textDocument.uri), e.previousResultId));
+
+connection.onCodeAction((e) => {
+	if (e.context.only && !e.context.only.some(kind => CodeActionKind.QuickFix.startsWith(kind))) {
+		return undefined;
+	}
+	return createCodeActions(e.textDocument.uri, e.context.diagnostics);
+});
+
+connection.languages.inlayHint.on((e) => {
+	const doc = textDocuments.get(e.textDocument.uri);
+	if (!doc) {
+		return undefined;
+	}
+	return getInlayHints(doc, e.range);
+});
+
+connection.onFoldingRanges((e) => {
+	const doc = textDocuments.get(e.textDocument.uri);
+	if (!doc) {
+		return undefined;
+	}
+	return getFoldingRanges(e.textDocument.uri, doc.getText());
+});
+
+connection.onDocumentLinks((e) => getDocumentLinks(e.textDocument.uri));
+
+connection.onDocumentFormatting((e) => {
+	const doc = textDocuments.get(e.textDocument.uri);
+	if (!doc) {
+		return undefined;
+	}
+	return getFormattingEdits(doc.getText(), e.options);
+});
+
+connection.onDocumentRangeFormatting((e) => {
+	const doc = textDocuments.get(e.textDocument.uri);
+	if (!doc) {
+		return undefined;
+	}
+	return getFormattingEdits(doc.getText(), e.options, e.range);
+});
+
+connection.onDocumentOnTypeFormatting((e) => {
+	const doc = textDocuments.get(e.textDocument.uri);
+	if (!doc) {
+		return undefined;
+	}
+	// Only format the line that has been completed.
+	return getFormattingEdits(doc.getText(), e.options, Range.create(e.position.line, 0, e.position.line, 0));
+});
+
 connection.onPrepareRename(async (e) => {
 	const symbol = await getSymbolDefinition(e.textDocument.uri, e.position);
 	if (!symbol) {
@@ -309,7 +718,8 @@ connection.onPrepareRename(async (e) => {
 	}
 
 	if (symbol instanceof UCFieldSymbol) {
-		if (symbol instanceof UCClassSymbol) {
+		// A class can only be renamed along with its file.
+		if (symbol instanceof UCClassSymbol && !(hasRenameFileCapability && symbol instanceof UCDocumentClassSymbol)) {
 			throw new ResponseError(ErrorCodes.InvalidRequest, 'You cannot rename a class!');
 		}
 	} else {
@@ -342,7 +752,19 @@ connection.onRenameRequest(async (e) => {
 	if (!symbol) {
 		return undefined;
 	}
-	const references = getIndexedReferences(symbol.getHash());
+
+	if (symbol instanceof UCDocumentClassSymbol) {
+		const newId = e.newName.toLowerCase();
+		if (newId !== symbol.getId().toString().toLowerCase() && filePathByClassIdMap$.getValue().has(newId)) {
+			throw new ResponseError(ErrorCodes.InvalidParams, `A class named '${e.newName}' already exists!`);
+		}
+		return renameClass(symbol, e.newName);
+	}
+
+	// Any document could be referencing the symbol.
+	await indexDeclarationsOnlyDocuments();
+
+	const references = getIndexedReferences(symbol);
 	const locations = references && Array
 		.from(references.values())
 		.map(ref => ref.location);
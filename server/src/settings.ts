@@ -6,6 +6,40 @@ export enum EAnalyzeOption {
 	All = "All"
 }
 
+export enum EBraceStyle {
+	Preserve = "Preserve",
+	SameLine = "SameLine",
+	NextLine = "NextLine"
+}
+
+export enum EIndentation {
+	Editor = "Editor",
+	Tabs = "Tabs",
+	Spaces = "Spaces"
+}
+
+export interface UCFormatOptions {
+	braceStyle: EBraceStyle;
+	indentation: EIndentation;
+	indentSize: number;
+	spaceAroundOperators: boolean;
+	alignDefaultProperties: boolean;
+}
+
+export interface UCCallHierarchyOptions {
+	includeOverriddenMethods: boolean;
+}
+
+export interface UCInlayHintsOptions {
+	parameterNames: boolean;
+	skippedParameters: boolean;
+	iteratorTypes: boolean;
+}
+
+export interface UCCompletionOptions {
+	insertSuperCall: boolean;
+}
+
 export interface UCOptions {
 	generation: UCGeneration;
 	indexAllDocuments?: boolean;
@@ -20,6 +54,12 @@ export interface UCOptions {
 			extends?: string;
 		}
 	};
+	format?: UCFormatOptions;
+	callHierarchy?: UCCallHierarchyOptions;
+	inlayHints?: UCInlayHintsOptions;
+	completion?: UCCompletionOptions;
+	isolateWorkspaceFolders?: boolean;
+	indexWorkerCount?: number | null;
 }
 
 export interface ServerSettings {
@@ -10,10 +10,16 @@ const merge = require('merge-options');
 module.exports = merge(config, {
 	context: path.join(__dirname),
 	entry: {
-		extension: './src/server.ts',
+		server: './src/server.ts',
+		// Started by the indexWorkerPool from the same directory as the server.
+		indexWorker: './src/UC/indexWorker.ts'
 	},
 	output: {
 		path: path.resolve(__dirname, 'out'),
-		filename: 'server.js'
+		filename: '[name].js'
+	},
+	node: {
+		// Resolve the index worker relative to the bundle, instead of a mocked directory.
+		__dirname: false
 	}
 });
\ No newline at end of file